@@ -24,6 +24,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { AdoptionCard, AdoptionAnimal } from "@/components/AdoptionCard";
 import { Card, CardContent } from "@/components/ui/card";
 import { toast } from "sonner";
+import { api } from "@/lib/apiClient";
+import { treatmentHighlights } from "@/lib/caseNotes";
 
 const THEME = {
   primary: "#19C2E6",
@@ -32,8 +34,6 @@ const THEME = {
   text: "#fff"
 };
 
-const BACKEND_API = process.env.NEXT_PUBLIC_BACKEND_API || "http://127.0.0.1:3000";
-
 export default function AdoptionPage(): React.ReactNode {
   const [searchQuery, setSearchQuery] = useState("");
   const [filterType, setFilterType] = useState("all");
@@ -55,12 +55,7 @@ export default function AdoptionPage(): React.ReactNode {
   const fetchAdoptions = useCallback(async () => {
     try {
       setLoading(true);
-      const res = await fetch(`${BACKEND_API}/adoptions?status=available`);
-      if (!res.ok) {
-        toast.error("Failed to load adoptions");
-        return;
-      }
-      const data = await res.json();
+      const data = await api.adoptions.list("available");
       
       // Fetch presigned URLs for images in batches
       const enriched: AdoptionAnimal[] = [];
@@ -68,18 +63,12 @@ export default function AdoptionPage(): React.ReactNode {
       
       for (let i = 0; i < data.length; i += batchSize) {
         const batch = data.slice(i, i + batchSize);
-        const batchPromises = batch.map(async (item: Record<string, unknown>) => {
+        const batchPromises = batch.map(async (item) => {
           let imageUrl = "";
-          if (item.adoption_id) {
-            try {
-              const imgRes = await fetch(`${BACKEND_API}/adoptions/${item.adoption_id}/image-url`);
-              if (imgRes.ok) {
-                const imgData = await imgRes.json() as { url?: string };
-                imageUrl = imgData.url || "";
-              }
-            } catch {
-              console.warn("Failed to fetch image for", item.adoption_id);
-            }
+          try {
+            imageUrl = await api.presign.adoptionImage(String(item.adoption_id));
+          } catch {
+            console.warn("Failed to fetch image for", item.adoption_id);
           }
           
           return {
@@ -94,6 +83,7 @@ export default function AdoptionPage(): React.ReactNode {
             description: item.description || "",
             vaccinated: item.vaccinated || false,
             neutered: item.neutered || false,
+            treatment: treatmentHighlights(item.treatment_summary),
           } as AdoptionAnimal;
         });
         
@@ -0,0 +1,191 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { CheckCircle2, Circle, Clock, Copy, MapPin, RefreshCw, Share2, Truck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { PublicCaseStatus, buildTimeline, fetchPublicCaseStatus } from "@/lib/caseTracking";
+
+const THEME = {
+  primary: "#19C2E6",
+  accent: "#FED801",
+  cta: "#FF5A1F",
+  text: "#fff",
+};
+
+function formatTime(value?: string) {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? value : d.toLocaleString();
+}
+
+/**
+ * Public case status page for reporters.
+ * - Reached via the tracking code returned when a report is submitted.
+ * - Shows the status timeline, the responding NGO and its ETA while en route.
+ * - Never shows reporter contact details (see toPublicCaseStatus).
+ */
+export default function CaseStatusPage() {
+  const params = useParams<{ code: string }>();
+  const code = decodeURIComponent(String(params?.code || ""));
+
+  const [caseStatus, setCaseStatus] = useState<PublicCaseStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!code) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchPublicCaseStatus(code);
+      setCaseStatus(result);
+      setNotFound(result === null);
+    } catch (err) {
+      console.error("Case status error", err);
+      setError((err as Error).message || "Failed to load case status");
+    } finally {
+      setLoading(false);
+    }
+  }, [code]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const shareUrl = typeof window !== "undefined" ? window.location.href : "";
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      toast.success("Tracking link copied");
+    } catch {
+      toast.error("Could not copy link");
+    }
+  };
+
+  const handleShare = async () => {
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: "Nivaran rescue status", url: shareUrl });
+      } catch {
+        // user dismissed the share sheet
+      }
+    } else {
+      handleCopy();
+    }
+  };
+
+  const timeline = caseStatus ? buildTimeline(caseStatus) : [];
+  const enRoute =
+    caseStatus &&
+    caseStatus.etaMinutes !== undefined &&
+    !timeline.find((s) => s.key === "completed")?.done;
+
+  return (
+    <div className="min-h-screen py-12 px-4 sm:px-6 lg:px-8" style={{ background: THEME.primary }}>
+      <div className="max-w-2xl mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl sm:text-4xl font-bold mb-2" style={{ color: THEME.text }}>
+            Rescue Status
+          </h1>
+          <p className="text-lg" style={{ color: "#eaf7ff" }}>
+            Tracking code <span className="font-mono font-semibold">{code}</span>
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="text-xl font-semibold" style={{ color: THEME.primary }}>
+                Case progress
+              </h2>
+              <div className="flex gap-2">
+                <Button variant="outline" size="icon" onClick={load} title="Refresh">
+                  <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+                </Button>
+                <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={handleShare} title="Share">
+                  <Share2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent style={{ color: "#111827" }}>
+            {loading && !caseStatus ? (
+              <p className="text-gray-600">Loading case status…</p>
+            ) : error ? (
+              <p className="text-red-600">{error}</p>
+            ) : notFound || !caseStatus ? (
+              <p className="text-gray-700">
+                We couldn't find a case with this tracking code. Check the link and try again.
+              </p>
+            ) : (
+              <div className="space-y-6">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">{caseStatus.status}</Badge>
+                  {caseStatus.severity && <Badge variant="outline">{caseStatus.severity}</Badge>}
+                </div>
+
+                {caseStatus.location && (
+                  <div className="flex items-center text-sm text-gray-700">
+                    <MapPin className="w-4 h-4 mr-1" style={{ color: THEME.primary }} />
+                    <span>{caseStatus.location}</span>
+                  </div>
+                )}
+
+                {enRoute && (
+                  <div className="flex items-center gap-3 rounded-lg p-3" style={{ background: "#eaf7ff" }}>
+                    <Truck className="w-6 h-6" style={{ color: THEME.cta }} />
+                    <div>
+                      <p className="font-semibold">
+                        {caseStatus.ngoName || "The rescue team"} is on the way
+                      </p>
+                      <p className="text-sm text-gray-700">
+                        Estimated arrival in about {caseStatus.etaMinutes} min
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                <ol className="space-y-4">
+                  {timeline.map((step) => (
+                    <li key={step.key} className="flex items-start gap-3">
+                      {step.done ? (
+                        <CheckCircle2 className="w-5 h-5 mt-0.5 text-green-600 flex-shrink-0" />
+                      ) : (
+                        <Circle className="w-5 h-5 mt-0.5 text-gray-300 flex-shrink-0" />
+                      )}
+                      <div>
+                        <p className={step.done ? "font-semibold" : "text-gray-500"}>{step.label}</p>
+                        {step.done && formatTime(step.at) && (
+                          <p className="text-xs text-gray-500 flex items-center gap-1">
+                            <Clock className="w-3 h-3" />
+                            {formatTime(step.at)}
+                          </p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="text-center mt-6">
+          <Link href="/report" className="underline" style={{ color: THEME.text }}>
+            Report another animal
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, Clock, Film, Mail, MapPin, Phone, RefreshCw, ShieldAlert, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CaseLocationMap } from "@/components/CaseLocationMap";
+import { CaseNotes } from "@/components/CaseNotes";
+import { ApiError, api } from "@/lib/apiClient";
+import { AdoptionRecord, CaseRecord } from "@/lib/apiTypes";
+import { TimelineEvent, buildCaseTimeline } from "@/lib/caseTimeline";
+import { outcomeInfo, outcomeLabel } from "@/lib/caseOutcomes";
+import { injuryLabel, speciesFromLabels } from "@/lib/taxonomy";
+
+const THEME = {
+  primary: "#19C2E6",
+  accent: "#FED801",
+  cta: "#FF5A1F",
+  text: "#fff",
+};
+
+function formatTime(value?: string) {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? value : d.toLocaleString();
+}
+
+async function presignAll(c: CaseRecord) {
+  const keys = Array.isArray(c.s3_keys) && c.s3_keys.length > 0 ? c.s3_keys.map(String) : c.s3_key ? [c.s3_key] : [];
+  const photos = await Promise.all(keys.map((key) => api.presign.s3Key(key).catch(() => undefined)));
+  let images = photos.filter((u): u is string => Boolean(u));
+  if (images.length === 0) {
+    const fallback = await api.presign.caseImage(String(c.case_id)).catch(() => undefined);
+    if (fallback) images = [fallback];
+  }
+  const video = c.video_s3_key ? await api.presign.s3Key(String(c.video_s3_key)).catch(() => undefined) : undefined;
+  const afterKeys = Array.isArray(c.after_photo_keys) ? c.after_photo_keys.map(String) : [];
+  const after = (await Promise.all(afterKeys.map((key) => api.presign.s3Key(key).catch(() => undefined)))).filter(
+    (u): u is string => Boolean(u)
+  );
+  return { images, video, after };
+}
+
+/**
+ * Case detail page for NGOs.
+ * - Every photo and the video, reporter contact and the Rekognition labels.
+ * - Map of the reported location.
+ * - How the case was closed: outcome, closure notes and after-photos.
+ * - The holding NGO's notes and treatment log (see CaseNotes).
+ * - Chronological timeline from the case event log (see caseTimeline).
+ */
+export default function CaseDetailPage() {
+  const params = useParams<{ id: string }>();
+  const caseId = decodeURIComponent(String(params?.id || ""));
+
+  const [caseData, setCaseData] = useState<CaseRecord | null>(null);
+  const [timeline, setTimeline] = useState<TimelineEvent[]>([]);
+  const [media, setMedia] = useState<{ images: string[]; video?: string; after: string[] }>({ images: [], after: [] });
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [showVideo, setShowVideo] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!caseId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const c = await api.cases.get(caseId);
+      // the event log and adoption are extras; the page still works without them
+      const [events, adoptions] = await Promise.all([
+        api.cases.events(caseId).catch((err) => {
+          console.warn("Case events unavailable", err);
+          return [];
+        }),
+        api.adoptions.list("all").catch(() => [] as AdoptionRecord[]),
+      ]);
+      const adoption = adoptions.find((a) => String(a.case_id) === String(c.case_id)) || null;
+
+      setCaseData(c);
+      setTimeline(buildCaseTimeline(c, events, adoption));
+      setNotFound(false);
+      setMedia(await presignAll(c));
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) {
+        setNotFound(true);
+      } else {
+        console.error("Case detail error", err);
+        setError((err as Error).message || "Failed to load case");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const lat = Number(caseData?.latitude);
+  const lng = Number(caseData?.longitude);
+  const hasCoords = caseData?.latitude !== undefined && Number.isFinite(lat) && Number.isFinite(lng);
+  const species = caseData ? caseData.species || speciesFromLabels(caseData.rekognition_labels) : undefined;
+  const activeImage = media.images[Math.min(activeIndex, media.images.length - 1)];
+
+  return (
+    <div className="min-h-screen py-8 px-4 sm:px-6 lg:px-8" style={{ background: THEME.primary }}>
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6 flex items-center justify-between gap-4">
+          <div>
+            <Link href="/dashboard" className="text-sm flex items-center gap-1 mb-2" style={{ color: "#eaf7ff" }}>
+              <ArrowLeft className="w-4 h-4" /> Back to dashboard
+            </Link>
+            <h1 className="text-3xl font-bold" style={{ color: THEME.text }}>
+              Case {caseData?.tracking_code || caseId}
+            </h1>
+          </div>
+          <Button variant="outline" size="icon" onClick={load} title="Refresh">
+            <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+
+        {loading && !caseData ? (
+          <p className="text-white">Loading case…</p>
+        ) : error ? (
+          <Card style={{ background: "#eaf7ff" }}>
+            <CardContent className="py-8 text-red-600">{error}</CardContent>
+          </Card>
+        ) : notFound || !caseData ? (
+          <Card style={{ background: "#eaf7ff" }}>
+            <CardContent className="py-8 text-gray-700">No case found with id {caseId}.</CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              {/* Evidence */}
+              <Card className="overflow-hidden" style={{ background: "#eaf7ff", color: "#111827" }}>
+                <div className="h-96 bg-black">
+                  {showVideo && media.video ? (
+                    <video src={media.video} controls className="w-full h-full object-contain" />
+                  ) : activeImage ? (
+                    <img src={activeImage} alt={`Case ${caseId}`} className="w-full h-full object-contain" />
+                  ) : (
+                    <div className="h-full flex items-center justify-center text-gray-400">No photos</div>
+                  )}
+                </div>
+                {(media.images.length > 1 || media.video) && (
+                  <div className="flex gap-2 p-2 overflow-x-auto" style={{ background: "#d6f1fb" }}>
+                    {media.images.map((url, i) => (
+                      <button
+                        key={url}
+                        type="button"
+                        onClick={() => { setActiveIndex(i); setShowVideo(false); }}
+                        className="flex-shrink-0 w-20 h-20 rounded overflow-hidden border-2"
+                        style={{ borderColor: !showVideo && i === activeIndex ? THEME.primary : "transparent" }}
+                      >
+                        <img src={url} alt={`Photo ${i + 1}`} className="w-full h-full object-cover" />
+                      </button>
+                    ))}
+                    {media.video && (
+                      <button
+                        type="button"
+                        onClick={() => setShowVideo(true)}
+                        className="flex-shrink-0 w-20 h-20 rounded border-2 flex items-center justify-center bg-black"
+                        style={{ borderColor: showVideo ? THEME.primary : "transparent" }}
+                        title="Play video"
+                      >
+                        <Film className="w-6 h-6 text-white" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </Card>
+
+              {/* Details */}
+              <Card style={{ background: "#eaf7ff", color: "#111827" }}>
+                <CardHeader>
+                  <div className="flex flex-wrap gap-2">
+                    {caseData.severity && <Badge variant="outline">{caseData.severity}</Badge>}
+                    <Badge variant="outline">{caseData.status || "New"}</Badge>
+                    {species && <Badge variant="outline">{species}{Number(caseData.animal_count) > 1 ? ` ×${caseData.animal_count}` : ""}</Badge>}
+                    {caseData.verification_status === "unverified" && (
+                      <Badge className="bg-amber-100 text-amber-900 border-amber-300" variant="outline">
+                        <ShieldAlert className="w-3 h-3 mr-1" />
+                        Unverified
+                      </Badge>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-gray-800">{caseData.description || "No description"}</p>
+
+                  {Array.isArray(caseData.injury_types) && caseData.injury_types.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {caseData.injury_types.map((t) => (
+                        <Badge key={t} variant="outline" className="bg-rose-50 text-rose-800 border-rose-200">
+                          {injuryLabel(t)}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
+                  {caseData.override_reason && (
+                    <p className="text-sm text-amber-900">Reporter&apos;s note on the photo: “{caseData.override_reason}”</p>
+                  )}
+
+                  {Array.isArray(caseData.rekognition_labels) && caseData.rekognition_labels.length > 0 && (
+                    <div>
+                      <p className="text-sm font-semibold mb-1" style={{ color: THEME.primary }}>Image labels</p>
+                      <div className="flex flex-wrap gap-1">
+                        {caseData.rekognition_labels.map((l, i) => (
+                          <Badge key={`${l.Name}-${i}`} variant="outline" className="bg-white text-gray-800 border-gray-300">
+                            {l.Name}
+                            {l.Confidence !== undefined && ` · ${Math.round(Number(l.Confidence))}%`}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex items-center text-sm text-gray-700">
+                    <MapPin className="w-4 h-4 mr-1" style={{ color: THEME.primary }} />
+                    <span>{caseData.location || "Unknown location"}</span>
+                  </div>
+                  {hasCoords && <CaseLocationMap position={{ lat, lng }} title={caseData.location} />}
+                </CardContent>
+              </Card>
+
+              {/* Closure */}
+              {["completed", "resolved", "closed"].includes(String(caseData.status || "").toLowerCase()) && (
+                <Card style={{ background: "#eaf7ff", color: "#111827" }}>
+                  <CardHeader>
+                    <div className="flex items-center justify-between gap-2">
+                      <h2 className="font-semibold" style={{ color: THEME.cta }}>Outcome</h2>
+                      <Badge variant="outline" className={outcomeInfo(caseData.outcome)?.className}>
+                        {outcomeLabel(caseData.outcome)}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {caseData.closure_notes ? (
+                      <p className="text-gray-800 whitespace-pre-line">{caseData.closure_notes}</p>
+                    ) : (
+                      <p className="text-sm text-gray-600">No closure notes.</p>
+                    )}
+                    {media.after.length > 0 && (
+                      <div className="flex gap-2 flex-wrap">
+                        {media.after.map((url, i) => (
+                          <a key={url} href={url} target="_blank" rel="noreferrer">
+                            <img src={url} alt={`After photo ${i + 1}`} className="w-24 h-24 rounded object-cover" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Notes & treatment */}
+              <Card style={{ background: "#eaf7ff", color: "#111827" }}>
+                <CardHeader>
+                  <h2 className="font-semibold" style={{ color: THEME.cta }}>Notes &amp; treatment</h2>
+                </CardHeader>
+                <CardContent>
+                  <CaseNotes caseId={String(caseData.case_id)} onChange={load} />
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-6">
+              {/* Reporter */}
+              <Card style={{ background: "#eaf7ff", color: "#111827" }}>
+                <CardHeader>
+                  <h2 className="font-semibold" style={{ color: THEME.cta }}>Reporter</h2>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p className="flex items-center gap-2">
+                    <User className="w-4 h-4" style={{ color: THEME.primary }} />
+                    {caseData.contact_name || "Anonymous"}
+                  </p>
+                  {caseData.contact_phone && (
+                    <a href={`tel:${caseData.contact_phone}`} className="flex items-center gap-2 underline">
+                      <Phone className="w-4 h-4" style={{ color: THEME.primary }} />
+                      {caseData.contact_phone}
+                    </a>
+                  )}
+                  {typeof caseData.contact_email === "string" && caseData.contact_email && (
+                    <a href={`mailto:${caseData.contact_email}`} className="flex items-center gap-2 underline">
+                      <Mail className="w-4 h-4" style={{ color: THEME.primary }} />
+                      {caseData.contact_email}
+                    </a>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Timeline */}
+              <Card style={{ background: "#eaf7ff", color: "#111827" }}>
+                <CardHeader>
+                  <h2 className="font-semibold" style={{ color: THEME.cta }}>Timeline</h2>
+                </CardHeader>
+                <CardContent>
+                  {timeline.length === 0 ? (
+                    <p className="text-sm text-gray-600">No activity recorded yet.</p>
+                  ) : (
+                    <ol className="border-l-2 ml-2 space-y-5" style={{ borderColor: THEME.primary }}>
+                      {timeline.map((event, i) => (
+                        <li key={`${event.type}-${event.at}-${i}`} className="relative ml-4">
+                          <span
+                            className="absolute -left-[23px] top-1.5 w-3 h-3 rounded-full"
+                            style={{ background: event.derived ? "#9ca3af" : THEME.cta }}
+                          />
+                          <p className="font-semibold">{event.label}</p>
+                          {event.actor && <p className="text-sm text-gray-700">by {event.actor}</p>}
+                          {event.note && <p className="text-sm text-gray-700 italic">{event.note}</p>}
+                          <p className="text-xs text-gray-500 flex items-center gap-1">
+                            <Clock className="w-3 h-3" />
+                            {formatTime(event.at)}
+                            {event.derived && " · from case record"}
+                          </p>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
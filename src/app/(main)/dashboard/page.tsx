@@ -1,20 +1,40 @@
 
 "use client";
-import { useEffect, useState, useCallback } from "react";
-import { Map, List, Search, RefreshCw } from "lucide-react";
+import { useEffect, useState, useCallback, useRef } from "react";
+import { Map, List, Search, RefreshCw, Bell, BellOff, AlarmClock, AlertTriangle, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Slider } from "@/components/ui/slider";
 import { Textarea } from "@/components/ui/textarea";
 import { RescueCard, RescueCase } from "@/components/RescueCard";
 import { AdoptionCard, AdoptionAnimal } from "@/components/AdoptionCard";
 import { MapView } from "@/components/MapView";
+import { CaseTransferDialog } from "@/components/CaseTransferDialog";
+import { TransferInbox } from "@/components/TransferInbox";
+import { BulkAction, BulkActionBar } from "@/components/BulkActionBar";
+import { BulkResultsDialog } from "@/components/BulkResultsDialog";
 import { Card, CardContent } from "@/components/ui/card";
 import { toast } from "sonner";
-import { getAuth, signOut } from "firebase/auth";
+import { INJURY_TYPES, SPECIES, speciesFromLabels } from "@/lib/taxonomy";
+import { priorityScore, rescoreWithLabels, severityRank } from "@/lib/severityScoring";
+import { haversineMeters, toLatLng } from "@/lib/geo";
+import { MAX_ROUTE_STOPS } from "@/lib/routePlanning";
+import { treatmentHighlights } from "@/lib/caseNotes";
+import { CASE_OUTCOMES, NO_OUTCOME, countOutcomes } from "@/lib/caseOutcomes";
+import { CLAIM_SLA_MIN, slaStatus } from "@/lib/caseSla";
+import { BulkResult, runBulk } from "@/lib/bulkActions";
+import { downloadCsv, printDispatchSheet } from "@/lib/caseExport";
+import { HeatPoint } from "@/lib/mapProvider";
+import { severityWeight } from "@/lib/mapClustering";
+import { AreaRelation, NEAR_AREA_KM, ServiceArea, areaRelation, ngoServiceArea } from "@/lib/serviceArea";
+import { ApiError, api, claimConflict, findNgoByEmail } from "@/lib/apiClient";
+import { CaseRecord, CaseTransferRecord } from "@/lib/apiTypes";
+import { CaseFeedEvent, CaseFeedMode, playCriticalAlert, subscribeToCaseFeed } from "@/lib/caseFeed";
+import { currentAuthUser, signOutUser, watchAuthUser } from "@/lib/authUser";
 import { useRouter } from "next/navigation";
 
 /**
@@ -26,7 +46,7 @@ import { useRouter } from "next/navigation";
  * - If NGO coords are not available, we attempt to use browser geolocation as a fallback.
  *
  * Requirements:
- * - NEXT_PUBLIC_BACKEND_API set (e.g. http://127.0.0.1:3000)
+ * - NEXT_PUBLIC_BACKEND_API set (e.g. http://127.0.0.1:3000); all calls go through lib/apiClient
  * - Backend presign endpoint at /cases/{case_id}/image-url (already implemented)
  * - List NGOs endpoint GET /ngos exists (returns array) so we can resolve ngo coords by ngo_id
  */
@@ -38,10 +58,27 @@ const THEME = {
   text: "#fff",
 };
 
-const BACKEND_API = process.env.NEXT_PUBLIC_BACKEND_API || "http://127.0.0.1:3000";
 const S3_BUCKET = process.env.NEXT_PUBLIC_S3_BUCKET || process.env.NEXT_PUBLIC_ANIMAL_BUCKET || "nivaran-animal-image";
 const AWS_REGION = process.env.NEXT_PUBLIC_AWS_REGION || "ap-south-1";
 
+// how long a case that arrived through the live feed stays highlighted
+const FRESH_HIGHLIGHT_MS = 60_000;
+const ALERT_SOUND_KEY = "dashboard:alert-sound";
+// incoming transfer offers are checked this often
+const TRANSFER_POLL_MS = 30_000;
+// SLA timers on the cards are refreshed this often
+const SLA_TICK_MS = 30_000;
+// the distance slider runs up to this; its last step means "any distance"
+const MAX_DISTANCE_FILTER_KM = 50;
+type CaseSort = "priority" | "nearest" | "severity" | "newest" | "oldest";
+// map heatmap: reports this far from the NGO, over one of these windows
+const HEATMAP_RADIUS_M = 50_000;
+const HEATMAP_RANGES = [
+  { hours: 24, label: "Last 24 h" },
+  { hours: 24 * 7, label: "Last 7 days" },
+  { hours: 24 * 30, label: "Last 30 days" },
+];
+
 function s3UrlForKey(key: string | null) {
   if (!key) return "";
   return `https://${S3_BUCKET}.s3.${AWS_REGION}.amazonaws.com/${encodeURIComponent(key)}`;
@@ -52,17 +89,61 @@ export default function DashboardPage({}): React.ReactNode {
   const [caseType, setCaseType] = useState<"all" | "ongoing" | "completed" | "adopted">("all");
   const [filterStatus, setFilterStatus] = useState<string>("all");
   const [filterSeverity, setFilterSeverity] = useState<string>("all");
+  const [filterSpecies, setFilterSpecies] = useState<string>("all");
+  const [filterInjury, setFilterInjury] = useState<string>("all");
+  // Completed tab only
+  const [filterOutcome, setFilterOutcome] = useState<string>("all");
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  // where cases lie relative to the NGO's service area
+  const [filterArea, setFilterArea] = useState<"all" | AreaRelation>("all");
+  const [sortBy, setSortBy] = useState<CaseSort>("priority");
+  // km from the NGO; null = any distance
+  const [maxDistanceKm, setMaxDistanceKm] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
 
   const [loading, setLoading] = useState(false);
-  const [cases, setCases] = useState<Record<string, unknown>[]>([]);
+  const [cases, setCases] = useState<CaseRecord[]>([]);
   const [ngoEmail, setNgoEmail] = useState<string | null>(null);
   const [editingNgoEmail, setEditingNgoEmail] = useState<string>("");
   const [ngoCoords, setNgoCoords] = useState<{ lat: number; lng: number } | null>(null);
+  const [serviceArea, setServiceArea] = useState<ServiceArea | null>(null);
+
+  // Live feed of new / changed nearby cases (All Cases tab only)
+  const [feedMode, setFeedMode] = useState<CaseFeedMode | null>(null);
+  const [freshIds, setFreshIds] = useState<string[]>([]);
+  const [alertSound, setAlertSound] = useState(false);
+  // read from the feed callback, which outlives renders
+  const alertSoundRef = useRef(false);
+  // the last /cases-nearby list as fetched, null while a fetch is running;
+  // the case feed's polling fallback diffs against it
+  const nearbyBaselineRef = useRef<CaseRecord[] | null>(null);
+
+  // Claiming: one claim/release in flight at a time, and the last lost race
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+  const [lostClaim, setLostClaim] = useState<{ caseId: string; title: string; claimedBy?: string } | null>(null);
+
+  // Transfers: offers to and from this NGO, the case being offered, and the answer in flight
+  const [transfers, setTransfers] = useState<CaseTransferRecord[]>([]);
+  const [transferCase, setTransferCase] = useState<CaseRecord | null>(null);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  // Clock for the SLA timers
+  const [now, setNow] = useState(() => Date.now());
+
+  // Multi-select (list view): selected case ids, the running bulk operation and its summary
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkProgress, setBulkProgress] = useState<{ done: number; total: number } | null>(null);
+  const [bulkSummary, setBulkSummary] = useState<{ action: string; results: BulkResult[] } | null>(null);
+  const [bulkTransfer, setBulkTransfer] = useState(false);
+
+  // Map: cases picked from a cluster ("Show in list"), and the heatmap window (0 = off)
+  const [mapFilterIds, setMapFilterIds] = useState<string[] | null>(null);
+  const [heatmapHours, setHeatmapHours] = useState(0);
+  const [heatmap, setHeatmap] = useState<HeatPoint[] | null>(null);
 
   // Adoption modal state
   const [showAdoptionModal, setShowAdoptionModal] = useState(false);
-  const [selectedCaseForAdoption, setSelectedCaseForAdoption] = useState<Record<string, unknown> | null>(null);
+  const [selectedCaseForAdoption, setSelectedCaseForAdoption] = useState<CaseRecord | null>(null);
   const [adoptionForm, setAdoptionForm] = useState({
     name: "",
     animal_type: "",
@@ -93,109 +174,106 @@ export default function DashboardPage({}): React.ReactNode {
     inProgress: cases.filter((c) => (c.status || "New") === "In Progress").length,
     resolved: cases.filter((c) => (c.status || "New") === "Resolved").length,
   };
+  const caseSla = (c: CaseRecord) =>
+    slaStatus(
+      { severity: c.severity, status: c.status, reportedAt: c.created_at, claimedAt: c.taken_at ? String(c.taken_at) : undefined },
+      now
+    );
+  const overdueCount = cases.filter((c) => caseSla(c)?.state === "overdue").length;
+  // Critical reports nobody has claimed within the SLA
+  const criticalWaiting = cases.filter((c) => {
+    const sla = caseSla(c);
+    return c.severity === "Critical" && sla?.phase === "claim" && sla.state === "overdue";
+  }).length;
+  const isClosedStatus = (status?: string) => ["completed", "resolved", "closed"].includes(String(status || "").toLowerCase());
+  const outcomeCounts = countOutcomes(cases.filter((c) => isClosedStatus(c.status)).map((c) => c.outcome));
 
   const fetchPresignedForCase = useCallback(async (caseId: string) => {
     try {
-      const res = await fetch(`${BACKEND_API}/cases/${encodeURIComponent(caseId)}/image-url`);
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        console.warn(`Presign fetch failed for ${caseId}`, res.status, txt);
-        return undefined;
-      }
-      const body = await res.json().catch(() => null);
-      if (body && body.url) return body.url as string;
-      return undefined;
-    } catch {
-      console.warn("Presign request error");
+      return await api.presign.caseImage(caseId);
+    } catch (err) {
+      console.warn(`Presign fetch failed for ${caseId}`, (err as Error).message);
       return undefined;
     }
   }, []);
 
   const fetchPresignedForS3Key = useCallback(async (s3Key: string) => {
     try {
-      const res = await fetch(`${BACKEND_API}/cases/dummy/image-url?key=${encodeURIComponent(s3Key)}`);
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        console.warn(`Presign fetch failed for s3_key ${s3Key}`, res.status, txt);
-        return undefined;
-      }
-      const body = await res.json().catch(() => null);
-      if (body && body.url) return body.url as string;
-      return undefined;
-    } catch {
-      console.warn("Presign request error for s3_key");
+      return await api.presign.s3Key(s3Key);
+    } catch (err) {
+      console.warn(`Presign fetch failed for s3_key ${s3Key}`, (err as Error).message);
       return undefined;
     }
   }, []);
 
-  async function fetchNearbyCases(currentNgoEmail: string) {
+  // Presign the extra evidence (s3_keys for all photos, video_s3_key) of a multi-photo case
+  const attachGalleryUrls = useCallback(async (c: CaseRecord) => {
+    if (Array.isArray(c.s3_keys) && c.s3_keys.length > 0) {
+      const urls = await Promise.all(
+        (c.s3_keys as unknown[]).map((key) => fetchPresignedForS3Key(String(key)))
+      );
+      c.image_presigned_urls = urls.filter((u): u is string => Boolean(u));
+    }
+    if (c.video_s3_key) {
+      const videoUrl = await fetchPresignedForS3Key(String(c.video_s3_key));
+      if (videoUrl) c.video_presigned_url = videoUrl;
+    }
+    return c;
+  }, [fetchPresignedForS3Key]);
+
+  // memoized: the load effect below depends on these, and the page re-renders
+  // on every SLA tick and feed event
+  const fetchNearbyCases = useCallback(async (currentNgoEmail: string) => {
     try {
       setLoading(true);
-      const res = await fetch(`${BACKEND_API}/cases-nearby?email=${encodeURIComponent(currentNgoEmail)}`);
-      if (!res.ok) {
-        const body = await res.text().catch(() => "");
-        toast.error(`Failed to load nearby cases: ${res.status} ${body}`);
-        setCases([]);
-        return;
-      }
-      const data = await res.json() as unknown[];
-      if (!Array.isArray(data)) {
-        toast.error("Unexpected response shape from backend");
-        setCases([]);
-        return;
-      }
+      nearbyBaselineRef.current = null;
+      const data = await api.cases.nearby(currentNgoEmail);
+      nearbyBaselineRef.current = [...data];
 
       // Attach presigned URLs in batches
       const batchSize = 6;
-      const enriched: Record<string, unknown>[] = [];
+      const enriched: CaseRecord[] = [];
       for (let i = 0; i < data.length; i += batchSize) {
-        const batch = data.slice(i, i + batchSize) as Record<string, unknown>[];
-        const batchPromises = batch.map(async (c: Record<string, unknown>) => {
+        const batch = data.slice(i, i + batchSize);
+        const batchPromises = batch.map(async (c) => {
           if (c.case_id) {
             const presigned = await fetchPresignedForCase(String(c.case_id));
             if (presigned) c.image_presigned_url = presigned;
           }
-          return c;
+          return attachGalleryUrls(c);
         });
         const results = await Promise.all(batchPromises);
         enriched.push(...results);
       }
 
       setCases(enriched);
-    } catch {
-      console.error("Fetch nearby cases error");
-      toast.error("Network error while loading nearby cases");
+    } catch (err) {
+      console.error("Fetch nearby cases error", err);
+      toast.error(
+        err instanceof ApiError && err.kind === "network"
+          ? "Network error while loading nearby cases"
+          : `Failed to load nearby cases: ${(err as Error).message}`
+      );
       setCases([]);
+      nearbyBaselineRef.current = [];
     } finally {
       setLoading(false);
     }
-  }
+  }, [fetchPresignedForCase, attachGalleryUrls]);
 
-  async function fetchOngoingCases(currentNgoEmail: string) {
+  const fetchOngoingCases = useCallback(async (currentNgoEmail: string) => {
     try {
       setLoading(true);
-      const res = await fetch(`${BACKEND_API}/ngo-cases?email=${encodeURIComponent(currentNgoEmail)}`);
-      if (!res.ok) {
-        const body = await res.text().catch(() => "");
-        toast.error(`Failed to load ongoing cases: ${res.status} ${body}`);
-        setCases([]);
-        return;
-      }
-      const data = await res.json() as unknown[];
-      if (!Array.isArray(data)) {
-        toast.error("Unexpected response shape from backend");
-        setCases([]);
-        return;
-      }
+      const data = await api.ngoCases.list(currentNgoEmail);
 
       // Extract case data from case_payload
-      const enriched: Record<string, unknown>[] = [];
+      const enriched: CaseRecord[] = [];
       
       // Process in batches to fetch presigned URLs
       const batchSize = 6;
       for (let i = 0; i < data.length; i += batchSize) {
-        const batch = data.slice(i, i + batchSize) as Record<string, unknown>[];
-        const batchPromises = batch.map(async (item: Record<string, unknown>) => {
+        const batch = data.slice(i, i + batchSize);
+        const batchPromises = batch.map(async (item) => {
           let caseData: Record<string, unknown> = item.case_payload as Record<string, unknown>;
           if (typeof item.case_payload === 'string') {
             try {
@@ -218,18 +296,23 @@ export default function DashboardPage({}): React.ReactNode {
             }
           }
           
-          return {
+          return attachGalleryUrls({
             ...(caseData as Record<string, unknown>),
-            case_id: caseId,
+            case_id: caseId as string,
             ngo_id: item.ngo_id,
             taken_at: item.taken_at,
-            status: itemStatus,
-            s3_key: s3Key,
+            status: String(itemStatus),
+            // every row here is one of this NGO's assignments
+            claimed_by: String(caseData.claimed_by || currentNgoEmail),
+            claimed_by_email: currentNgoEmail,
+            s3_key: s3Key ? String(s3Key) : undefined,
             image_presigned_url: imageUrl,
-            latitude: item.latitude || caseData.latitude,
-            longitude: item.longitude || caseData.longitude,
-            completed_at: item.completed_at
-          };
+            latitude: (item.latitude || caseData.latitude) as CaseRecord["latitude"],
+            longitude: (item.longitude || caseData.longitude) as CaseRecord["longitude"],
+            completed_at: item.completed_at,
+            outcome: String(item.outcome || caseData.outcome || "") || undefined,
+            closure_notes: String(item.closure_notes || caseData.closure_notes || "") || undefined
+          });
         });
         
         const results = await Promise.all(batchPromises);
@@ -237,38 +320,35 @@ export default function DashboardPage({}): React.ReactNode {
       }
 
       setCases(enriched);
-    } catch {
-      console.error("Fetch ongoing cases error");
-      toast.error("Network error while loading ongoing cases");
+    } catch (err) {
+      console.error("Fetch ongoing cases error", err);
+      toast.error(
+        err instanceof ApiError && err.kind === "network"
+          ? "Network error while loading ongoing cases"
+          : `Failed to load ongoing cases: ${(err as Error).message}`
+      );
       setCases([]);
     } finally {
       setLoading(false);
     }
-  }
+  }, [fetchPresignedForS3Key, attachGalleryUrls]);
 
   // Fetch adoptions by NGO email for completed cases
   async function fetchAdoptionsByNgoEmail(email: string) {
     try {
-      const res = await fetch(`${BACKEND_API}/adoptions?status=all`);
-      if (!res.ok) {
-        console.warn("Failed to fetch adoptions", res.status);
-        return;
-      }
-      const adoptions = await res.json() as unknown[];
-      if (!Array.isArray(adoptions)) return;
+      const adoptions = await api.adoptions.list("all");
       
       console.log("[Dashboard] Fetched adoptions:", adoptions.length);
       
       // Filter adoptions by NGO email (include both available and adopted)
-      const ngoAdoptions = (adoptions as Record<string, unknown>[]).filter((a: Record<string, unknown>) => 
+      const ngoAdoptions = adoptions.filter((a) => 
         a.ngo_email && 
         String(a.ngo_email).toLowerCase() === email.toLowerCase()
       );
       
       console.log("[Dashboard] NGO adoptions (all):", ngoAdoptions.length);
-      (ngoAdoptions as Record<string, unknown>[]).forEach((a: Record<string, unknown>) => {
-        const aObj = a as { adoption_id?: string; case_id?: string; adoption_status?: string };
-        console.log(`  - Adoption ${aObj.adoption_id}, case_id: ${aObj.case_id}, status: ${aObj.adoption_status}`);
+      ngoAdoptions.forEach((a) => {
+        console.log(`  - Adoption ${a.adoption_id}, case_id: ${a.case_id}, status: ${a.adoption_status}`);
       });
       
       // Fetch images for adoptions in batches
@@ -276,20 +356,13 @@ export default function DashboardPage({}): React.ReactNode {
       const enrichedAdoptions: Record<string, AdoptionAnimal> = {};
       
       for (let i = 0; i < ngoAdoptions.length; i += batchSize) {
-        const batch = ngoAdoptions.slice(i, i + batchSize) as Record<string, unknown>[];
-        const batchPromises = batch.map(async (adoption: Record<string, unknown>) => {
-          const adoptionObj = adoption as { adoption_id?: string };
+        const batch = ngoAdoptions.slice(i, i + batchSize);
+        const batchPromises = batch.map(async (adoption) => {
           let imageUrl = "";
-          if (adoptionObj.adoption_id) {
-            try {
-              const imgRes = await fetch(`${BACKEND_API}/adoptions/${adoptionObj.adoption_id}/image-url`);
-              if (imgRes.ok) {
-                const imgData = await imgRes.json();
-                imageUrl = imgData.url;
-              }
-            } catch {
-              console.warn("Failed to fetch adoption image");
-            }
+          try {
+            imageUrl = await api.presign.adoptionImage(String(adoption.adoption_id));
+          } catch {
+            console.warn("Failed to fetch adoption image");
           }
           
           const animal: AdoptionAnimal = {
@@ -304,6 +377,7 @@ export default function DashboardPage({}): React.ReactNode {
             description: String(adoption.description || ""),
             vaccinated: Boolean(adoption.vaccinated),
             neutered: Boolean(adoption.neutered),
+            treatment: treatmentHighlights(adoption.treatment_summary),
           };
           
           return {
@@ -333,43 +407,33 @@ export default function DashboardPage({}): React.ReactNode {
       
       console.log("[Dashboard] adoptedAnimals keys:", Object.keys(enrichedAdoptions));
       setAdoptedAnimals(enrichedAdoptions);
-    } catch {
-      console.warn("Error fetching adoptions");
+    } catch (err) {
+      console.warn("Error fetching adoptions", err);
     }
   }
 
   // Resolve ngo coordinates by calling GET /ngos and matching by email
   async function fetchNgoCoordsByEmail(email: string) {
     try {
-      const res = await fetch(`${BACKEND_API}/ngos`);
-      if (!res.ok) {
-        console.warn("Failed to fetch NGOs for coords", res.status);
-        return null;
-      }
-      const list = await res.json().catch(() => []);
-      if (!Array.isArray(list)) return null;
-      const match = list.find((n: Record<string, unknown>) => {
-        const nObj = n as { email?: string };
-        return String(nObj.email).toLowerCase() === String(email).toLowerCase();
-      });
-      if (match && ((match as {latitude?: number; longitude?: number}).latitude !== undefined && (match as {latitude?: number; longitude?: number}).longitude !== undefined)) {
-        const lat = Number((match as {latitude: number}).latitude);
-        const lng = Number((match as {longitude: number}).longitude);
+      const match = await findNgoByEmail(email);
+      setServiceArea(match ? ngoServiceArea(match) : null);
+      if (match && match.latitude !== undefined && match.longitude !== undefined) {
+        const lat = Number(match.latitude);
+        const lng = Number(match.longitude);
         if (!Number.isNaN(lat) && !Number.isNaN(lng)) {
           setNgoCoords({ lat, lng });
           return { lat, lng };
         }
       }
-    } catch {
-      console.warn("Error fetching ngo coords");
+    } catch (err) {
+      console.warn("Error fetching ngo coords", err);
     }
     return null;
   }
 
   // On mount or caseType change: get email from Firebase auth and load cases + NGO coords
   useEffect(() => {
-    const auth = getAuth();
-    const user = auth.currentUser;
+    const user = currentAuthUser();
     
     if (user && user.email) {
       const email = user.email;
@@ -388,7 +452,7 @@ export default function DashboardPage({}): React.ReactNode {
       }
     } else {
       // Wait for auth state
-      const unsubscribe = auth.onAuthStateChanged((u) => {
+      const unsubscribe = watchAuthUser((u) => {
         if (u && u.email) {
           setNgoEmail(u.email);
           setEditingNgoEmail(u.email);
@@ -409,6 +473,128 @@ export default function DashboardPage({}): React.ReactNode {
     }
   }, [caseType, fetchNearbyCases, fetchOngoingCases]);
 
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), SLA_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    setSelectedIds([]);
+    setMapFilterIds(null);
+  }, [caseType]);
+
+  useEffect(() => {
+    try {
+      const enabled = localStorage.getItem(ALERT_SOUND_KEY) === "1";
+      setAlertSound(enabled);
+      alertSoundRef.current = enabled;
+    } catch {}
+  }, []);
+
+  const toggleAlertSound = () => {
+    const enabled = !alertSound;
+    setAlertSound(enabled);
+    alertSoundRef.current = enabled;
+    try { localStorage.setItem(ALERT_SOUND_KEY, enabled ? "1" : "0"); } catch {}
+    // the click doubles as the user gesture browsers require before playing audio
+    if (enabled) playCriticalAlert();
+  };
+
+  const handleFeedEvent = async (event: CaseFeedEvent) => {
+    if (event.type === "created") {
+      const c = event.case;
+      const id = String(c.case_id);
+      const presigned = await fetchPresignedForCase(id);
+      if (presigned) c.image_presigned_url = presigned;
+      await attachGalleryUrls(c);
+
+      setCases((prev) => (prev.some((p) => String(p.case_id) === id) ? prev : [c, ...prev]));
+      setFreshIds((prev) => [...prev, id]);
+      setTimeout(() => setFreshIds((prev) => prev.filter((x) => x !== id)), FRESH_HIGHLIGHT_MS);
+
+      const title = String(c.description || `Case ${id}`).slice(0, 60);
+      if (c.severity === "Critical") {
+        toast.error(`Critical case nearby: ${title}`);
+        if (alertSoundRef.current) playCriticalAlert();
+      } else {
+        toast.info(`New case nearby: ${title}`);
+      }
+    } else if (event.type === "updated") {
+      // status changes made by other NGOs (e.g. a case being taken)
+      const { type: _type, case_id, ...changes } = event;
+      setCases((prev) => prev.map((c) => (String(c.case_id) === String(case_id) ? { ...c, ...changes } : c)));
+    } else {
+      setCases((prev) => prev.filter((c) => String(c.case_id) !== String(event.case_id)));
+    }
+  };
+
+  // heatmap of every report (open or closed) in the window, centred on the NGO,
+  // or on the first located case until the NGO's position is known
+  const heatmapAnchor =
+    ngoCoords ||
+    cases
+      .map((c) => ({ lat: Number(c.latitude), lng: Number(c.longitude) }))
+      .find((p) => Number.isFinite(p.lat) && Number.isFinite(p.lng));
+  useEffect(() => {
+    const anchor = heatmapAnchor;
+    if (viewMode !== "map" || !heatmapHours || !anchor) {
+      setHeatmap(null);
+      return;
+    }
+    let cancelled = false;
+    api.cases
+      .recent({ lat: anchor.lat, lng: anchor.lng, radius_m: HEATMAP_RADIUS_M, hours: heatmapHours })
+      .then((items) => {
+        if (cancelled) return;
+        const points = items
+          .map((c) => ({ position: { lat: Number(c.latitude), lng: Number(c.longitude) }, weight: severityWeight(c.severity) }))
+          .filter((p) => Number.isFinite(p.position.lat) && Number.isFinite(p.position.lng));
+        setHeatmap(points);
+      })
+      .catch((err) => {
+        console.warn("Error fetching heatmap", err);
+        if (!cancelled) toast.error("Could not load the heatmap");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [viewMode, heatmapHours, heatmapAnchor?.lat, heatmapAnchor?.lng]);
+
+  const showInList = (caseIds: string[]) => {
+    setMapFilterIds(caseIds);
+    setViewMode("list");
+  };
+
+  const fetchTransfers = useCallback(async (email: string) => {
+    try {
+      setTransfers(await api.transfers.list(email));
+    } catch (err) {
+      console.warn("Error fetching transfers", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!ngoEmail) {
+      setTransfers([]);
+      return;
+    }
+    fetchTransfers(ngoEmail);
+    const timer = setInterval(() => fetchTransfers(ngoEmail), TRANSFER_POLL_MS);
+    return () => clearInterval(timer);
+  }, [ngoEmail, fetchTransfers]);
+
+  useEffect(() => {
+    if (!ngoEmail || caseType !== "all") {
+      setFeedMode(null);
+      return;
+    }
+    return subscribeToCaseFeed(ngoEmail, {
+      onEvent: handleFeedEvent,
+      onModeChange: setFeedMode,
+      baseline: () => nearbyBaselineRef.current,
+    });
+  }, [ngoEmail, caseType]);
+
   const saveNgoEmail = async () => {
     if (!editingNgoEmail) {
       toast.error("Enter an NGO email first");
@@ -424,6 +610,10 @@ export default function DashboardPage({}): React.ReactNode {
     setNgoEmail(null);
     setEditingNgoEmail("");
     setNgoCoords(null);
+    setServiceArea(null);
+    // both need the NGO's location
+    setMaxDistanceKm(null);
+    if (sortBy === "nearest") setSortBy("priority");
     setCases([]);
   };
 
@@ -440,20 +630,12 @@ export default function DashboardPage({}): React.ReactNode {
       toast.error("NGO email not set");
       return;
     }
+    if (claimingId) return;
 
+    setClaimingId(id);
     try {
-      const res = await fetch(`${BACKEND_API}/cases/${encodeURIComponent(id)}/take-action`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email: ngoEmail }),
-      });
-
-      if (!res.ok) {
-        const errBody = await res.text().catch(() => "");
-        toast.error(`Failed to take action: ${res.status} ${errBody}`);
-        return;
-      }
-
+      // send the version we saw so a claim made in the meantime is rejected
+      await api.cases.takeAction(id, ngoEmail, c.version !== undefined ? Number(c.version) : undefined);
       toast.success(`Case #${id} assigned to you!`);
       
       // Refresh the current view
@@ -462,9 +644,259 @@ export default function DashboardPage({}): React.ReactNode {
       } else {
         fetchOngoingCases(ngoEmail);
       }
-    } catch {
-      console.error("Take action error");
-      toast.error("Network error while taking action");
+    } catch (err) {
+      const held = claimConflict(err);
+      if (held) {
+        // show the current holder right away instead of waiting for a refetch
+        setCases((prev) =>
+          prev.map((it) =>
+            String(it.case_id) === id
+              ? {
+                  ...it,
+                  status: held.status || it.status,
+                  claimed_by: held.claimedBy,
+                  claimed_by_email: held.claimedByEmail,
+                  version: held.version ?? it.version,
+                }
+              : it
+          )
+        );
+        setLostClaim({ caseId: id, title: String(c.description || `Case ${id}`).slice(0, 60), claimedBy: held.claimedBy });
+        return;
+      }
+      console.error("Take action error", err);
+      toast.error(
+        err instanceof ApiError && err.kind === "network"
+          ? "Network error while taking action"
+          : `Failed to take action: ${(err as Error).message}`
+      );
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  // Hand a claimed case back so another NGO can take it
+  const handleReleaseCase = async (id: string) => {
+    const c = cases.find((it) => String(it.case_id) === id);
+    if (!c || !ngoEmail) {
+      toast.error(!c ? "Case not found" : "NGO email not set");
+      return;
+    }
+    if (claimingId || !window.confirm("Release this case so another NGO can take it?")) return;
+
+    setClaimingId(id);
+    try {
+      await api.cases.release(id, ngoEmail, c.version !== undefined ? Number(c.version) : undefined);
+      toast.success(`Case #${id} released`);
+      if (caseType === "all") {
+        fetchNearbyCases(ngoEmail);
+      } else {
+        fetchOngoingCases(ngoEmail);
+      }
+    } catch (err) {
+      console.error("Release case error", err);
+      toast.error(
+        claimConflict(err)
+          ? "This case changed since you loaded it. Refresh and try again."
+          : err instanceof ApiError && err.kind === "network"
+          ? "Network error while releasing case"
+          : `Failed to release case: ${(err as Error).message}`
+      );
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  // Offer a held case to another NGO; it stays ours until they accept
+  const handleRequestTransfer = async (toEmail: string, reason: string) => {
+    if (!transferCase || !ngoEmail) return;
+    const id = String(transferCase.case_id);
+    try {
+      const transfer = await api.transfers.request(id, {
+        email: ngoEmail,
+        to_email: toEmail,
+        reason,
+        version: transferCase.version !== undefined ? Number(transferCase.version) : undefined,
+      });
+      toast.success(`Transfer offered to ${transfer.to_name || toEmail}`);
+      setTransferCase(null);
+      fetchTransfers(ngoEmail);
+    } catch (err) {
+      console.error("Request transfer error", err);
+      toast.error(
+        claimConflict(err)
+          ? "This case changed since you loaded it. Refresh and try again."
+          : err instanceof ApiError && err.kind === "network"
+          ? "Network error while offering the case"
+          : `Failed to transfer case: ${(err as Error).message}`
+      );
+      throw err;
+    }
+  };
+
+  const selectedCases = () => cases.filter((c) => visibleSelectedIds.includes(String(c.case_id)));
+
+  // Run one action over every selected case and report per case; failures stay selected
+  const runBulkAction = async (label: string, action: (c: CaseRecord) => Promise<string | void>) => {
+    const targets = selectedCases();
+    if (!ngoEmail || targets.length === 0 || bulkProgress) return;
+    setBulkProgress({ done: 0, total: targets.length });
+    const results = await runBulk(targets, action, (done) => setBulkProgress({ done, total: targets.length }));
+    setBulkProgress(null);
+    setBulkSummary({ action: label, results });
+    setSelectedIds(results.filter((r) => !r.ok).map((r) => r.caseId));
+    if (caseType === "all") {
+      fetchNearbyCases(ngoEmail);
+    } else {
+      fetchOngoingCases(ngoEmail);
+    }
+    fetchTransfers(ngoEmail);
+  };
+
+  const isMine = (c: CaseRecord) => Boolean(ngoEmail && String(c.claimed_by_email || "").toLowerCase() === ngoEmail.toLowerCase());
+
+  const handleBulkAction = (action: BulkAction) => {
+    if (!ngoEmail) {
+      toast.error("NGO email not set");
+      return;
+    }
+    const targets = selectedCases();
+    if (action === "export") {
+      downloadCsv(targets);
+      toast.success(`Exported ${targets.length} case${targets.length === 1 ? "" : "s"}`);
+    } else if (action === "print") {
+      if (!printDispatchSheet(targets, currentAuthUser()?.displayName)) toast.error("Allow pop-ups to print the dispatch sheet");
+    } else if (action === "transfer") {
+      setBulkTransfer(true);
+    } else if (action === "route") {
+      // only cases we hold and can find on a map go on the run
+      const stops = targets.filter((c) => isMine(c) && toLatLng(c.latitude, c.longitude));
+      if (stops.length === 0) {
+        toast.error("Select cases your NGO has claimed and that have a location");
+        return;
+      }
+      if (stops.length > MAX_ROUTE_STOPS) toast.warning(`A run covers at most ${MAX_ROUTE_STOPS} cases; planning the first ${MAX_ROUTE_STOPS}`);
+      else if (stops.length < targets.length) toast.info(`Left out ${targets.length - stops.length} case(s) that are not yours or have no location`);
+      const params = new URLSearchParams({ cases: stops.slice(0, MAX_ROUTE_STOPS).map((c) => String(c.case_id)).join(",") });
+      if (ngoCoords) {
+        params.set("ngo_lat", String(ngoCoords.lat));
+        params.set("ngo_lng", String(ngoCoords.lng));
+      }
+      router.push(`/tracking/route?${params}`);
+    } else if (action === "claim") {
+      runBulkAction("Claim cases", async (c) => {
+        if (isMine(c)) throw new Error("Already yours");
+        await api.cases.takeAction(String(c.case_id), ngoEmail, c.version !== undefined ? Number(c.version) : undefined);
+      });
+    } else if (action === "false_report") {
+      if (!window.confirm(`Mark ${targets.length} case${targets.length === 1 ? "" : "s"} as false reports?`)) return;
+      runBulkAction("Mark as false report", async (c) => {
+        const id = String(c.case_id);
+        // cases we hold are closed with that outcome; unclaimed ones can only be
+        // dismissed while they await verification (AI-rejected reports)
+        if (isMine(c)) {
+          await api.ngoCases.close(id, { outcome: "false_report", closure_notes: "Marked as a false report from the dashboard" });
+          return "Closed as false report";
+        }
+        if (String(c.status || "New") !== "New") throw new Error(`Held by ${c.claimed_by || "another NGO"}`);
+        if (c.verification_status !== "unverified") throw new Error("Claim it first to close it as a false report");
+        await api.cases.verify(id, ngoEmail, "dismiss");
+        return "Dismissed";
+      });
+    }
+  };
+
+  const handleBulkSeverity = (severity: string) => {
+    if (!ngoEmail) return;
+    runBulkAction(`Set severity to ${severity}`, async (c) => {
+      if (c.severity === severity) return "Already " + severity;
+      await api.cases.setSeverity(String(c.case_id), ngoEmail, severity);
+      return `${c.severity || "Unknown"} → ${severity}`;
+    });
+  };
+
+  const handleBulkTransfer = async (toEmail: string, reason: string) => {
+    if (!ngoEmail) return;
+    setBulkTransfer(false);
+    await runBulkAction("Transfer cases", async (c) => {
+      if (!isMine(c)) throw new Error("Only cases you hold can be transferred");
+      const transfer = await api.transfers.request(String(c.case_id), {
+        email: ngoEmail,
+        to_email: toEmail,
+        reason,
+        version: c.version !== undefined ? Number(c.version) : undefined,
+      });
+      return `Offered to ${transfer.to_name || toEmail}`;
+    });
+  };
+
+  const handleRespondTransfer = async (transfer: CaseTransferRecord, decision: "accept" | "decline") => {
+    if (!ngoEmail || respondingId) return;
+    let reason: string | undefined;
+    if (decision === "decline") {
+      const answer = window.prompt("Decline this case? Add a reason for the other NGO (optional).");
+      if (answer === null) return;
+      reason = answer.trim() || undefined;
+    }
+
+    const id = String(transfer.transfer_id);
+    setRespondingId(id);
+    try {
+      await api.transfers.respond(id, ngoEmail, decision, reason);
+      if (decision === "accept") {
+        toast.success(`Case #${transfer.case_id} is now yours`);
+        if (caseType === "all") {
+          fetchNearbyCases(ngoEmail);
+        } else {
+          fetchOngoingCases(ngoEmail);
+        }
+      } else {
+        toast.info("Transfer declined");
+      }
+    } catch (err) {
+      console.error("Respond to transfer error", err);
+      toast.error(
+        err instanceof ApiError && err.status === 409
+          ? "This offer is no longer open"
+          : err instanceof ApiError && err.kind === "network"
+          ? "Network error while answering the transfer"
+          : `Failed to answer the transfer: ${(err as Error).message}`
+      );
+    } finally {
+      setRespondingId(null);
+      fetchTransfers(ngoEmail);
+    }
+  };
+
+  // Confirm or dismiss a case the reporter filed despite the AI rejecting the photo
+  const handleReviewCase = async (id: string, decision: "confirm" | "dismiss") => {
+    if (!ngoEmail) {
+      toast.error("NGO email not set");
+      return;
+    }
+    if (decision === "dismiss" && !window.confirm("Dismiss this report as not a genuine rescue case?")) {
+      return;
+    }
+
+    try {
+      await api.cases.verify(id, ngoEmail, decision);
+
+      if (decision === "confirm") {
+        toast.success(`Case #${id} confirmed`);
+        setCases((prev) =>
+          prev.map((c) => ((c.case_id || c.id) === id ? { ...c, verification_status: "verified" } : c))
+        );
+      } else {
+        toast.info(`Case #${id} dismissed`);
+        setCases((prev) => prev.filter((c) => (c.case_id || c.id) !== id));
+      }
+    } catch (err) {
+      console.error("Review case error", err);
+      toast.error(
+        err instanceof ApiError && err.kind === "network"
+          ? "Network error while reviewing case"
+          : `Failed to review case: ${(err as Error).message}`
+      );
     }
   };
 
@@ -505,23 +937,11 @@ export default function DashboardPage({}): React.ReactNode {
     setSubmittingAdoption(true);
 
     try {
-      const res = await fetch(`${BACKEND_API}/adoptions`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          ...adoptionForm,
-          ngo_email: ngoEmail,
-          case_id: selectedCaseForAdoption?.case_id || selectedCaseForAdoption?.id || "",
-        }),
+      const data = await api.adoptions.create({
+        ...adoptionForm,
+        ngo_email: ngoEmail,
+        case_id: selectedCaseForAdoption?.case_id || selectedCaseForAdoption?.id || "",
       });
-
-      if (!res.ok) {
-        const errBody = await res.text().catch(() => "");
-        toast.error(`Failed to post adoption: ${res.status} ${errBody}`);
-        return;
-      }
-
-      const data = await res.json() as { adoption_id?: string };
       toast.success(`Animal posted for adoption successfully!`);
       
       const caseId = selectedCaseForAdoption?.case_id || selectedCaseForAdoption?.id;
@@ -550,9 +970,13 @@ export default function DashboardPage({}): React.ReactNode {
         image_base64: ""
       });
       setSelectedCaseForAdoption(null);
-    } catch {
-      console.error("Submit adoption error");
-      toast.error("Network error while submitting adoption");
+    } catch (err) {
+      console.error("Submit adoption error", err);
+      toast.error(
+        err instanceof ApiError && err.kind === "network"
+          ? "Network error while submitting adoption"
+          : `Failed to post adoption: ${(err as Error).message}`
+      );
     } finally {
       setSubmittingAdoption(false);
     }
@@ -560,52 +984,78 @@ export default function DashboardPage({}): React.ReactNode {
 
   const handleMarkAsAdopted = async (adoptionId: string) => {
     try {
-      const res = await fetch(`${BACKEND_API}/adoptions/${adoptionId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ adoption_status: "adopted" }),
-      });
-
-      if (!res.ok) {
-        const errBody = await res.text().catch(() => "");
-        toast.error(`Failed to mark as adopted: ${res.status} ${errBody}`);
-        return;
-      }
-
+      await api.adoptions.update(adoptionId, { adoption_status: "adopted" });
       toast.success("Animal marked as adopted!");
       
       // Refresh adoptions to remove adopted animals from view
       if (ngoEmail) {
         await fetchAdoptionsByNgoEmail(ngoEmail);
       }
-    } catch {
-      console.error("Mark as adopted error");
-      toast.error("Network error while marking as adopted");
+    } catch (err) {
+      console.error("Mark as adopted error", err);
+      toast.error(
+        err instanceof ApiError && err.kind === "network"
+          ? "Network error while marking as adopted"
+          : `Failed to mark as adopted: ${(err as Error).message}`
+      );
     }
   };
 
+  const sameEmail = (a?: string) => Boolean(ngoEmail && a && a.toLowerCase() === ngoEmail.toLowerCase());
+  const incomingTransfers = transfers.filter((t) => t.status === "pending" && sameEmail(t.to_email));
+  const outgoingTransfers: Record<string, string> = Object.fromEntries(
+    transfers
+      .filter((t) => t.status === "pending" && sameEmail(t.from_email))
+      .map((t) => [String(t.case_id), t.to_name || t.to_email])
+  );
+
+  const distanceFromNgo = (c: CaseRecord) => {
+    const position = toLatLng(c.latitude, c.longitude);
+    return ngoCoords && position ? haversineMeters(ngoCoords, position) : undefined;
+  };
+
   const filteredRescues = cases
     .map((caseItem) => {
-      const id = caseItem.case_id || caseItem.id || Math.random().toString(36).slice(2, 9);
+      const id = String(caseItem.case_id || caseItem.id || Math.random().toString(36).slice(2, 9));
       const imageUrl =
         caseItem.image_presigned_url ||
-        (caseItem.s3_key ? s3UrlForKey(String(caseItem.s3_key)) : caseItem.imageUrl || "");
+        (caseItem.s3_key ? s3UrlForKey(String(caseItem.s3_key)) : String(caseItem.imageUrl || ""));
       
       const location =
         caseItem.location ||
         (caseItem.latitude && caseItem.longitude ? `${caseItem.latitude}, ${caseItem.longitude}` : "Unknown");
+      // the stored score was computed before the photo's labels existed
+      const rescored = rescoreWithLabels(caseItem);
       return {
         id,
         title: caseItem.description ? (caseItem.description as string).slice(0, 60) : `Case ${id}`,
         description: caseItem.description || "",
         location,
         severity: caseItem.severity || "Unknown",
+        suggestedSeverity: rescored?.severity || caseItem.severity_suggested || undefined,
+        severityScore: rescored?.score || Number(caseItem.severity_score) || undefined,
         status: caseItem.status || "New",
         imageUrl,
-        reportedAt: caseItem.created_at || caseItem.reportedAt || "recent",
-        contactInfo: caseItem.contact_phone || caseItem.contactInfo || "n/a",
-        latitude: caseItem.latitude,
-        longitude: caseItem.longitude,
+        imageUrls: Array.isArray(caseItem.image_presigned_urls) ? caseItem.image_presigned_urls : undefined,
+        videoUrl: caseItem.video_presigned_url,
+        reportedAt: String(caseItem.created_at || caseItem.reportedAt || "recent"),
+        claimedAt: caseItem.taken_at ? String(caseItem.taken_at) : undefined,
+        contactInfo: String(caseItem.contact_phone || caseItem.contactInfo || "n/a"),
+        latitude: caseItem.latitude !== undefined ? Number(caseItem.latitude) : undefined,
+        longitude: caseItem.longitude !== undefined ? Number(caseItem.longitude) : undefined,
+        distanceMeters: distanceFromNgo(caseItem),
+        // older cases only carry the raw Rekognition labels
+        species: caseItem.species || speciesFromLabels(caseItem.rekognition_labels) || undefined,
+        injuryTypes: Array.isArray(caseItem.injury_types) ? caseItem.injury_types : [],
+        animalCount: Number(caseItem.animal_count) || undefined,
+        unverified: caseItem.verification_status === "unverified",
+        overrideReason: caseItem.override_reason || undefined,
+        claimedBy: caseItem.claimed_by || caseItem.claimed_by_email || undefined,
+        claimedByYou: Boolean(
+          ngoEmail && String(caseItem.claimed_by_email || "").toLowerCase() === ngoEmail.toLowerCase()
+        ),
+        outcome: caseItem.outcome || undefined,
+        transferPendingTo: outgoingTransfers[String(caseItem.case_id)],
         // keep original case_id so we can correlate when Take Action is clicked
         _raw: caseItem,
       } as RescueCase & { _raw?: Record<string, unknown> };
@@ -635,21 +1085,63 @@ export default function DashboardPage({}): React.ReactNode {
         if (adoptionInfo && adoptionInfo.status === "adopted") {
           return false;
         }
+        if (filterOutcome !== "all") {
+          const outcome = CASE_OUTCOMES.some((o) => o.value === rescue.outcome) ? rescue.outcome : NO_OUTCOME;
+          if (outcome !== filterOutcome) return false;
+        }
       }
       
       const matchesStatus = filterStatus === "all" || rescue.status === filterStatus;
       const matchesSeverity = filterSeverity === "all" || rescue.severity === filterSeverity;
+      const matchesSpecies = filterSpecies === "all" || rescue.species === filterSpecies;
+      const matchesInjury = filterInjury === "all" || (rescue.injuryTypes || []).includes(filterInjury);
+      const matchesOverdue = !overdueOnly || slaStatus(rescue, now)?.state === "overdue";
+      const matchesMap = !mapFilterIds || mapFilterIds.includes(rescue.id);
+      const matchesDistance =
+        maxDistanceKm === null || (rescue.distanceMeters !== undefined && rescue.distanceMeters <= maxDistanceKm * 1000);
+      const matchesArea =
+        filterArea === "all" ||
+        Boolean(
+          serviceArea &&
+            rescue.latitude !== undefined &&
+            rescue.longitude !== undefined &&
+            areaRelation(serviceArea, { lat: rescue.latitude, lng: rescue.longitude }) === filterArea
+        );
       const matchesSearch =
         searchQuery === "" ||
         rescue.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
         rescue.location.toLowerCase().includes(searchQuery.toLowerCase());
-      return matchesStatus && matchesSeverity && matchesSearch;
+      return (
+        matchesStatus &&
+        matchesSeverity &&
+        matchesSpecies &&
+        matchesInjury &&
+        matchesOverdue &&
+        matchesMap &&
+        matchesDistance &&
+        matchesArea &&
+        matchesSearch
+      );
+    })
+    .sort((a, b) => {
+      const newest = (Date.parse(b.reportedAt) || 0) - (Date.parse(a.reportedAt) || 0);
+      if (sortBy === "newest") return newest;
+      if (sortBy === "oldest") return -newest;
+      if (sortBy === "severity") return severityRank(b.severity) - severityRank(a.severity) || -newest;
+      // cases without a location go last
+      if (sortBy === "nearest") {
+        const nearest = (a.distanceMeters ?? Infinity) - (b.distanceMeters ?? Infinity);
+        if (nearest) return nearest;
+      }
+      return priorityScore(b) - priorityScore(a) || newest;
     });
 
+  // filters hide cases without unselecting them; bulk actions only reach what is in view
+  const visibleSelectedIds = selectedIds.filter((id) => filteredRescues.some((r) => r.id === id));
+
   const handleSignOut = async () => {
     try {
-      const auth = getAuth();
-      await signOut(auth);
+      await signOutUser();
     } catch {
       // ignore
     } finally {
@@ -696,6 +1188,19 @@ export default function DashboardPage({}): React.ReactNode {
             <p className="text-sm" style={{ color: "#eaf7ff" }}>
               Manage and respond to active rescue cases in your area
             </p>
+            {feedMode && (
+              <p className="text-xs mt-1 flex items-center gap-1" style={{ color: "#eaf7ff" }}>
+                <span
+                  className="inline-block w-2 h-2 rounded-full"
+                  style={{ background: feedMode === "live" ? "#22c55e" : THEME.accent }}
+                />
+                {feedMode === "live"
+                  ? "Live updates on"
+                  : feedMode === "polling"
+                  ? "Checking for new cases automatically"
+                  : "Connecting to live updates…"}
+              </p>
+            )}
           </div>
 
           <div className="flex items-center gap-3">
@@ -717,8 +1222,29 @@ export default function DashboardPage({}): React.ReactNode {
           </div>
         </div>
 
+        {/* Critical cases past their claim SLA */}
+        {criticalWaiting > 0 && (
+          <div className="mb-6 rounded-md border-2 border-red-500 bg-red-50 p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <p className="flex items-center gap-2 text-red-800 font-medium">
+              <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+              {criticalWaiting === 1 ? "1 critical case has" : `${criticalWaiting} critical cases have`} waited more than{" "}
+              {CLAIM_SLA_MIN.Critical} min without being claimed
+            </p>
+            <Button
+              onClick={() => {
+                setCaseType("all");
+                setFilterSeverity("Critical");
+                setOverdueOnly(true);
+              }}
+              style={{ background: THEME.cta, color: "#fff" }}
+            >
+              Show them
+            </Button>
+          </div>
+        )}
+
         {/* Stats */}
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
           <Card style={{ background: "#eaf7ff" }}>
             <CardContent className="pt-6">
               <div className="text-2xl font-bold" style={{ color: THEME.primary }}>{stats.total}</div>
@@ -743,8 +1269,16 @@ export default function DashboardPage({}): React.ReactNode {
               <p className="text-sm" style={{ color: THEME.primary }}>Resolved</p>
             </CardContent>
           </Card>
+          <Card style={{ background: overdueCount > 0 ? "#fee2e2" : "#eaf7ff" }}>
+            <CardContent className="pt-6">
+              <div className="text-2xl font-bold" style={{ color: overdueCount > 0 ? "#b91c1c" : THEME.primary }}>{overdueCount}</div>
+              <p className="text-sm" style={{ color: overdueCount > 0 ? "#b91c1c" : THEME.primary }}>Overdue</p>
+            </CardContent>
+          </Card>
         </div>
 
+        <TransferInbox transfers={incomingTransfers} onRespond={handleRespondTransfer} busyId={respondingId} />
+
         {/* Case Type Tabs */}
         <div className="mb-6 flex gap-2 flex-wrap">
           <Button
@@ -777,6 +1311,31 @@ export default function DashboardPage({}): React.ReactNode {
           </Button>
         </div>
 
+        {/* Outcomes of closed cases */}
+        {caseType === "completed" && (
+          <div className="mb-6 flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant={filterOutcome === "all" ? "default" : "outline"}
+              onClick={() => setFilterOutcome("all")}
+            >
+              All outcomes ({Object.values(outcomeCounts).reduce((a, b) => a + b, 0)})
+            </Button>
+            {[...CASE_OUTCOMES, { value: NO_OUTCOME, label: "Not recorded" }]
+              .filter((o) => outcomeCounts[o.value])
+              .map((o) => (
+                <Button
+                  key={o.value}
+                  size="sm"
+                  variant={filterOutcome === o.value ? "default" : "outline"}
+                  onClick={() => setFilterOutcome(filterOutcome === o.value ? "all" : o.value)}
+                >
+                  {o.label} ({outcomeCounts[o.value]})
+                </Button>
+              ))}
+          </div>
+        )}
+
         {/* Filters */}
         <Card className="mb-6" style={{ background: "#eaf7ff" }}>
           <CardContent className="pt-4">
@@ -816,6 +1375,67 @@ export default function DashboardPage({}): React.ReactNode {
                 </SelectContent>
               </Select>
 
+              <Select value={filterSpecies} onValueChange={setFilterSpecies}>
+                <SelectTrigger className="w-full md:w-40 text-black">
+                  <SelectValue placeholder="Species" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Species</SelectItem>
+                  {SPECIES.map((sp) => (
+                    <SelectItem key={sp} value={sp}>{sp}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={filterInjury} onValueChange={setFilterInjury}>
+                <SelectTrigger className="w-full md:w-44 text-black">
+                  <SelectValue placeholder="Injury" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Injuries</SelectItem>
+                  {INJURY_TYPES.map((t) => (
+                    <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as CaseSort)}>
+                <SelectTrigger className="w-full md:w-40 text-black">
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="priority">Priority</SelectItem>
+                  {ngoCoords && <SelectItem value="nearest">Nearest</SelectItem>}
+                  <SelectItem value="severity">Most severe</SelectItem>
+                  <SelectItem value="newest">Newest</SelectItem>
+                  <SelectItem value="oldest">Oldest</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {serviceArea && (
+                <Select value={filterArea} onValueChange={(value) => setFilterArea(value as "all" | AreaRelation)}>
+                  <SelectTrigger className="w-full md:w-44 text-black">
+                    <SelectValue placeholder="Service area" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any location</SelectItem>
+                    <SelectItem value="inside">Inside my area</SelectItem>
+                    <SelectItem value="near">Just outside (≤{NEAR_AREA_KM} km)</SelectItem>
+                    <SelectItem value="outside">Further out</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+
+              <Button
+                variant={overdueOnly ? "default" : "outline"}
+                onClick={() => setOverdueOnly(!overdueOnly)}
+                className="w-full md:w-auto"
+                title="Only cases past their response-time SLA"
+              >
+                <AlarmClock className="w-4 h-4 mr-1" />
+                Overdue{overdueCount > 0 ? ` (${overdueCount})` : ""}
+              </Button>
+
               <div className="flex gap-2">
                 <Button variant={viewMode === "list" ? "default" : "outline"} size="icon" onClick={() => setViewMode("list")}>
                   <List className="w-4 h-4" />
@@ -823,6 +1443,27 @@ export default function DashboardPage({}): React.ReactNode {
                 <Button variant={viewMode === "map" ? "default" : "outline"} size="icon" onClick={() => setViewMode("map")}>
                   <Map className="w-4 h-4" />
                 </Button>
+                {viewMode === "map" && (
+                  <Select value={String(heatmapHours)} onValueChange={(value) => setHeatmapHours(Number(value))}>
+                    <SelectTrigger className="w-36 text-black" title="Heatmap of reports">
+                      <SelectValue placeholder="Heatmap" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">Heatmap off</SelectItem>
+                      {HEATMAP_RANGES.map((r) => (
+                        <SelectItem key={r.hours} value={String(r.hours)}>{r.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  variant={alertSound ? "default" : "outline"}
+                  size="icon"
+                  onClick={toggleAlertSound}
+                  title={alertSound ? "Alert sound for Critical cases on" : "Alert sound for Critical cases off"}
+                >
+                  {alertSound ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                </Button>
                 <Button
                   variant="outline"
                   size="icon"
@@ -835,9 +1476,49 @@ export default function DashboardPage({}): React.ReactNode {
                 </Button>
               </div>
             </div>
+
+            {ngoCoords && (
+              <div className="mt-4 flex items-center gap-4 text-sm text-black">
+                <span className="w-44 shrink-0">
+                  {maxDistanceKm === null ? "Any distance" : `Within ${maxDistanceKm} km of your NGO`}
+                </span>
+                <Slider
+                  className="max-w-md"
+                  min={1}
+                  max={MAX_DISTANCE_FILTER_KM}
+                  step={1}
+                  value={[maxDistanceKm ?? MAX_DISTANCE_FILTER_KM]}
+                  onValueChange={([km]) => setMaxDistanceKm(km >= MAX_DISTANCE_FILTER_KM ? null : km)}
+                />
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {mapFilterIds && (
+          <div className="mb-4 flex items-center gap-2 text-sm">
+            <span className="rounded-full px-3 py-1 text-black" style={{ background: THEME.accent }}>
+              Showing {filteredRescues.length} of {mapFilterIds.length} cases from the map
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setMapFilterIds(null)}>
+              <X className="w-4 h-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+        )}
+
+        {viewMode === "list" && caseType !== "adopted" && !loading && (
+          <BulkActionBar
+            selectedCount={visibleSelectedIds.length}
+            visibleCount={filteredRescues.length}
+            onToggleAll={(all) => setSelectedIds(all ? filteredRescues.map((r) => r.id) : [])}
+            onClear={() => setSelectedIds([])}
+            onAction={handleBulkAction}
+            onSeverity={handleBulkSeverity}
+            progress={bulkProgress}
+          />
+        )}
+
         {/* Content */}
         {loading ? (
           <div className="text-center py-12">
@@ -894,7 +1575,22 @@ export default function DashboardPage({}): React.ReactNode {
                     onPushForAdoption={caseType === "completed" && !adoptedAnimal ? (id) => handlePushForAdoption(id) : undefined}
                     showAdoptionButton={caseType === "completed" && !adoptedAnimal}
                     onMarkAsAdopted={undefined}
+                    onReview={caseType === "all" || caseType === "ongoing" ? (id, decision) => handleReviewCase(id, decision) : undefined}
+                    onRelease={caseType === "all" || caseType === "ongoing" ? (id) => handleReleaseCase(id) : undefined}
+                    onTransfer={
+                      caseType === "all" || caseType === "ongoing"
+                        ? (id) => setTransferCase(cases.find((c) => String(c.case_id) === id) || null)
+                        : undefined
+                    }
+                    busy={claimingId === rescue.id}
                     adoptionStatus={adoptionInfo?.status}
+                    highlighted={freshIds.includes(rescue.id)}
+                    detailsHref={`/dashboard/cases/${encodeURIComponent(rescue.id)}`}
+                    now={now}
+                    selected={selectedIds.includes(rescue.id)}
+                    onSelectChange={(id, selected) =>
+                      setSelectedIds((prev) => (selected ? [...prev, id] : prev.filter((x) => x !== id)))
+                    }
                   />
                 );
               })
@@ -911,10 +1607,75 @@ export default function DashboardPage({}): React.ReactNode {
             )}
           </div>
         ) : (
-          <MapView rescues={filteredRescues} />
+          <MapView
+            rescues={filteredRescues}
+            ngoLocation={ngoCoords}
+            heatmap={heatmap}
+            onShowInList={showInList}
+            serviceArea={serviceArea}
+          />
         )}
       </div>
 
+      <CaseTransferDialog
+        open={Boolean(transferCase)}
+        onOpenChange={(open) => !open && setTransferCase(null)}
+        caseTitle={String(transferCase?.description || `Case ${transferCase?.case_id}`).slice(0, 60)}
+        position={
+          transferCase?.latitude !== undefined && transferCase?.longitude !== undefined
+            ? { lat: Number(transferCase.latitude), lng: Number(transferCase.longitude) }
+            : null
+        }
+        holderEmail={ngoEmail}
+        onSubmit={handleRequestTransfer}
+      />
+
+      {/* Bulk transfer: NGOs ranked from the first selected case */}
+      <CaseTransferDialog
+        open={bulkTransfer}
+        onOpenChange={setBulkTransfer}
+        caseTitle={`${visibleSelectedIds.length} selected case${visibleSelectedIds.length === 1 ? "" : "s"}`}
+        position={(() => {
+          const first = selectedCases().find((c) => c.latitude !== undefined && c.longitude !== undefined);
+          return first ? { lat: Number(first.latitude), lng: Number(first.longitude) } : null;
+        })()}
+        holderEmail={ngoEmail}
+        onSubmit={handleBulkTransfer}
+      />
+
+      <BulkResultsDialog summary={bulkSummary} onClose={() => setBulkSummary(null)} />
+
+      {/* Lost claim race */}
+      <Dialog open={Boolean(lostClaim)} onOpenChange={(open) => !open && setLostClaim(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {lostClaim?.claimedBy ? `Already claimed by ${lostClaim.claimedBy}` : "Case changed"}
+            </DialogTitle>
+            <DialogDescription>
+              {lostClaim?.claimedBy
+                ? `Another NGO claimed "${lostClaim.title}" before your request arrived. It was not assigned to you.`
+                : `"${lostClaim?.title}" was updated since you loaded it. Check the latest details and try again.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            {lostClaim && !lostClaim.claimedBy && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  const caseId = lostClaim.caseId;
+                  setLostClaim(null);
+                  handleTakeAction(caseId);
+                }}
+              >
+                Try again
+              </Button>
+            )}
+            <Button onClick={() => setLostClaim(null)}>OK</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Adoption Modal */}
       <Dialog open={showAdoptionModal} onOpenChange={setShowAdoptionModal}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
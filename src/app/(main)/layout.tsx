@@ -1,6 +1,7 @@
 import '@/styles/globals.css'
 import { Navbar } from '@/components/Navbar'
 import { Footer } from '@/components/Footer'
+import { ReportQueueSync } from '@/components/ReportQueueSync'
 
 export const metadata = {
   title: 'Nivaran',
@@ -15,6 +16,7 @@ export default function MainLayout({ children }: { children: React.ReactNode })
     <html lang="en">
       <body style={{ background: MAIN_BLUE, color: "#fff" }}>
         <Navbar />
+        <ReportQueueSync />
         <main className="min-h-screen w-full">
           {children} {/* All pages render here */}
         </main>
@@ -6,13 +6,13 @@ import {
   GoogleAuthProvider,
   signInWithPopup,
   signInWithEmailAndPassword,
-  signOut,
-  onAuthStateChanged,
   getIdTokenResult,
   User,
 } from "firebase/auth";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { api, findNgoByEmail } from "@/lib/apiClient";
+import { AuthUser, isFakeAuth, signOutUser, watchAuthUser } from "@/lib/authUser";
 
 /* Hardcoded Firebase config for dev only */
 const FIREBASE_CONFIG = {
@@ -25,8 +25,6 @@ const FIREBASE_CONFIG = {
   measurementId: process.env.NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID!,
 };
 
-const BACKEND_API = process.env.NEXT_PUBLIC_BACKEND_API!;
-
 const THEME = {
   primary: "#19C2E6",
   accent: "#FED801",
@@ -36,7 +34,7 @@ const THEME = {
 
 export default function LoginPage() {
   const [mounted, setMounted] = useState(false);
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loadingAuth, setLoadingAuth] = useState(true);
   const [emailInput, setEmailInput] = useState("");
   const [passwordInput, setPasswordInput] = useState("");
@@ -47,9 +45,8 @@ export default function LoginPage() {
   useEffect(() => {
     setMounted(true);
     if (typeof window === "undefined") return;
-    if (!getApps().length) initializeApp(FIREBASE_CONFIG);
-    const auth = getAuth();
-    const unsub = onAuthStateChanged(auth, async (u) => {
+    if (!isFakeAuth() && !getApps().length) initializeApp(FIREBASE_CONFIG);
+    const unsub = watchAuthUser(async (u) => {
       setUser(u);
       setLoadingAuth(false);
       // If user is present, determine role, store to localStorage and redirect appropriately
@@ -60,10 +57,11 @@ export default function LoginPage() {
     return () => unsub();
   }, []);
 
-  async function determineRole(u: User): Promise<"ngo" | "user" | "unknown"> {
-    // 1) custom claims
+  async function determineRole(u: AuthUser): Promise<"ngo" | "user" | "unknown"> {
+    // 1) custom claims (fake auth users have no Firebase token)
     try {
-      const idTokenRes = await getIdTokenResult(u);
+      if (isFakeAuth()) throw new Error("no claims");
+      const idTokenRes = await getIdTokenResult(u as User);
       const claimRole = idTokenRes?.claims?.role;
       if (claimRole === "ngo") return "ngo";
       if (claimRole === "user") return "user";
@@ -73,18 +71,10 @@ export default function LoginPage() {
 
     // 2) backend user profile (user-table)
     try {
-      const idToken = await u.getIdToken();
-      const res = await fetch(`${BACKEND_API}/users/profile`, {
-        method: "GET",
-        headers: { Authorization: `Bearer ${idToken}` },
-      });
-      if (res.ok) {
-        const data = await res.json().catch(() => ({}));
-        const prof = data.profile || {};
-        if (prof.role === "ngo") return "ngo";
-        // treat presence in users table as user
-        if (prof.email) return "user";
-      }
+      const prof = await api.users.profile();
+      if (prof.role === "ngo") return "ngo";
+      // treat presence in users table as user
+      if (prof.email) return "user";
     } catch {
       // ignore
     }
@@ -94,14 +84,7 @@ export default function LoginPage() {
       const email = (u && u.email) || "";
       if (email) {
         // call /ngos (existing endpoint) and match locally
-        const ngosResp = await fetch(`${BACKEND_API}/ngos`, { method: "GET" });
-        if (ngosResp.ok) {
-          const ngos = await ngosResp.json().catch(() => []);
-          if (Array.isArray(ngos)) {
-            const match = ngos.find((n: Record<string, unknown>) => String((n as {email?: string}).email || "").toLowerCase() === email.toLowerCase());
-            if (match) return "ngo";
-          }
-        }
+        if (await findNgoByEmail(email)) return "ngo";
       }
     } catch {
       // ignore
@@ -111,7 +94,7 @@ export default function LoginPage() {
   }
 
   // Helper: store email (always) and if NGO also fetch & store ngo_id
-  async function storeIdentityInLocalStorage(u: User, role: "ngo" | "user" | "unknown") {
+  async function storeIdentityInLocalStorage(u: AuthUser, role: "ngo" | "user" | "unknown") {
     try {
       if (typeof window === "undefined") return;
       const email = u.email || "";
@@ -124,15 +107,9 @@ export default function LoginPage() {
       if (role === "ngo") {
         // Try to find ngo_id via backend /ngos endpoint (match by email)
         try {
-          const ngosResp = await fetch(`${BACKEND_API}/ngos`, { method: "GET" });
-          if (ngosResp.ok) {
-            const ngos = await ngosResp.json().catch(() => []);
-            if (Array.isArray(ngos)) {
-              const match = ngos.find((n: Record<string, unknown>) => String((n as {email?: string}).email || "").toLowerCase() === email.toLowerCase());
-              if (match && (match as {ngo_id?: string | number}).ngo_id) {
-                localStorage.setItem("ngo_id", String((match as {ngo_id: string | number}).ngo_id));
-              }
-            }
+          const match = await findNgoByEmail(email);
+          if (match && match.ngo_id) {
+            localStorage.setItem("ngo_id", String(match.ngo_id));
           }
         } catch {
           // ignore - storing email is enough if ngo_id lookup fails
@@ -143,7 +120,7 @@ export default function LoginPage() {
     }
   }
 
-  async function determineAndRedirectAndStore(u: User) {
+  async function determineAndRedirectAndStore(u: AuthUser) {
     try {
       const role = await determineRole(u);
       await storeIdentityInLocalStorage(u, role);
@@ -195,8 +172,7 @@ export default function LoginPage() {
   };
 
   const handleSignOut = async () => {
-    const auth = getAuth();
-    await signOut(auth);
+    await signOutUser();
     // clear localStorage identity keys
     try {
       localStorage.removeItem("email");
@@ -11,6 +11,9 @@ import {
   onAuthStateChanged,
   User,
 } from "firebase/auth";
+import { ApiError, api } from "@/lib/apiClient";
+import { ServiceAreaEditor } from "@/components/ServiceAreaEditor";
+import { ServiceArea, enclosingRadiusKm } from "@/lib/serviceArea";
 
 const FIREBASE_CONFIG = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
@@ -22,7 +25,6 @@ const FIREBASE_CONFIG = {
   measurementId: process.env.NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID!,
 };
 
-const BACKEND_API = process.env.NEXT_PUBLIC_BACKEND_API!;
 const GOOGLE_MAPS_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
 
 
@@ -43,7 +45,7 @@ export default function NgoRegisterPage() {
   const [address, setAddress] = useState("");
   const [phone, setPhone] = useState("");
   const [altPhone, setAltPhone] = useState("");
-  const [serviceRadius, setServiceRadius] = useState("");
+  const [serviceArea, setServiceArea] = useState<ServiceArea | null>(null);
   const [website, setWebsite] = useState("");
   const [placeInput, setPlaceInput] = useState("");
   const [placeSuggestions, setPlaceSuggestions] = useState<string[]>([]);
@@ -158,24 +160,25 @@ export default function NgoRegisterPage() {
   const registerProfile = async () => {
     // Ensure required fields
     const effectiveEmail = user?.email || email;
-    if (!name || !address || !serviceRadius || !phone || !effectiveEmail) {
-      setStatusMsg("Please fill all required fields: name, address, phone, service radius, email.");
+    if (!name || !address || !serviceArea || !phone || !effectiveEmail) {
+      setStatusMsg("Please fill all required fields: name, address, phone, service area, email.");
       return;
     }
 
     setSubmitting(true);
     setStatusMsg("Registering NGO...");
 
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 15000);
-
     try {
       const body: Record<string, unknown> = {
         name,
         address,
         phone,
         alternate_phone: altPhone || '',
-        service_radius_km: parseFloat(serviceRadius),
+        // the drawn area, plus the radius around the NGO that covers it for radius-only lookups
+        service_area: serviceArea,
+        service_radius_km: Math.ceil(
+          enclosingRadiusKm(serviceArea, selectedLat !== null && selectedLng !== null ? { lat: selectedLat, lng: selectedLng } : undefined)
+        ),
         website,
         email: effectiveEmail,
       };
@@ -186,26 +189,7 @@ export default function NgoRegisterPage() {
         body.longitude = selectedLng;
       }
 
-      const res = await fetch(`${BACKEND_API}/ngos`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(body),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeout);
-
-      const data = await res.json().catch(() => ({ message: "no-json", status: res.status }));
-
-      if (!res.ok) {
-        console.error("Backend returned error:", res.status, data);
-        setStatusMsg(
-          `Failed to register NGO (status ${res.status}). Server response: ${JSON.stringify(data)}`
-        );
-        return;
-      }
+      const data = await api.ngos.create(body, 15000);
 
       setNgoId(data.ngo_id || null);
       setStatusMsg("NGO registered: " + (data.message || JSON.stringify(data)) + (data.ngo_id ? ` (ID: ${data.ngo_id})` : ""));
@@ -222,15 +206,18 @@ export default function NgoRegisterPage() {
       }, 500);
     } catch (err) {
       console.error("Register NGO request failed:", err);
-      if ((err as Error)?.name === "AbortError") {
-        setStatusMsg("Request timed out. Backend did not respond in time.");
+      if (err instanceof ApiError && err.kind === "http") {
+        setStatusMsg(
+          `Failed to register NGO (status ${err.status}). Server response: ${JSON.stringify(err.body)}`
+        );
+      } else if (err instanceof ApiError && err.kind === "timeout") {
+        setStatusMsg(err.message);
       } else {
         setStatusMsg(
           "Network or CORS error: could not reach backend. Make sure sam local is running and FrontendOrigin matches (http://localhost:3001). See backend logs."
         );
       }
     } finally {
-      clearTimeout(timeout);
       setSubmitting(false);
     }
   };
@@ -378,8 +365,13 @@ return (
                 <label style={labelStyle}>Alternate Phone *</label>
                 <input value={altPhone} onChange={(e) => setAltPhone(e.target.value)} style={inputStyle} placeholder="+1 (555) 000-0001" />
 
-                <label style={labelStyle}>Service Radius (km) *</label>
-                <input value={serviceRadius} onChange={(e) => setServiceRadius(e.target.value)} style={inputStyle} placeholder="10" type="number" />
+                <label style={labelStyle}>Service Area *</label>
+                <div style={{ marginBottom: 16 }}>
+                  <ServiceAreaEditor
+                    center={selectedLat !== null && selectedLng !== null ? { lat: selectedLat, lng: selectedLng } : null}
+                    onChange={setServiceArea}
+                  />
+                </div>
 
                 <label style={labelStyle}>Website (Optional)</label>
                 <input value={website} onChange={(e) => setWebsite(e.target.value)} style={inputStyle} placeholder="https://example.org" />
@@ -2,7 +2,6 @@
 
 import { useEffect, useState } from "react";
 import { initializeApp, getApps } from "firebase/app";
-import { getAuth, onAuthStateChanged, signOut } from "firebase/auth";
 import { useRouter } from "next/navigation";
 import {
   Mail,
@@ -23,6 +22,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { toast } from "sonner";
+import { api, findNgoByEmail, isApiConfigured } from "@/lib/apiClient";
+import { NgoRecord } from "@/lib/apiTypes";
+import { ServiceArea, enclosingRadiusKm, ngoServiceArea } from "@/lib/serviceArea";
+import { ServiceAreaEditor } from "@/components/ServiceAreaEditor";
+import { isFakeAuth, signOutUser, watchAuthUser } from "@/lib/authUser";
 
 const THEME = {
   primary: "#19C2E6",
@@ -35,7 +39,6 @@ const CONTENT_TEXT = "#042f3a";
 
 export default function ProfilePage({}): React.ReactNode {
   const router = useRouter();
-  const BACKEND_API = process.env.NEXT_PUBLIC_BACKEND_API!;
   const FIREBASE_CONFIG = {
     apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
     authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN!,
@@ -54,6 +57,10 @@ export default function ProfilePage({}): React.ReactNode {
     bio: "",
     joinedDate: "",
   });
+  // NGO accounts: their registration record and the service area being edited
+  const [ngo, setNgo] = useState<NgoRecord | null>(null);
+  const [serviceArea, setServiceArea] = useState<ServiceArea | null>(null);
+  const [savingArea, setSavingArea] = useState(false);
 
   const stats = {
     rescues: 12,
@@ -74,32 +81,43 @@ export default function ProfilePage({}): React.ReactNode {
     setIsEditing(false);
   };
 
-  // Fetch profile: prefer authenticated idToken, but if none and localStorage.email exists (dev),
-  // send X-EMAIL header so backend in LOCAL_DEV mode can return profile.
-  async function fetchProfileWithToken(idToken?: string, devEmail?: string, userId?: string) {
+  const ngoLocation =
+    ngo && ngo.latitude !== undefined && ngo.longitude !== undefined
+      ? { lat: Number(ngo.latitude), lng: Number(ngo.longitude) }
+      : null;
+
+  const handleSaveServiceArea = async () => {
+    if (!ngo?.ngo_id || !serviceArea) return;
+    setSavingArea(true);
     try {
-      const headers: Record<string, string> = { "Content-Type": "application/json" };
-      if (idToken) {
-        headers["Authorization"] = `Bearer ${idToken}`;
-        
-        // In local development, also send X-UID and X-EMAIL headers for easier testing
-        if (BACKEND_API && (BACKEND_API.includes('localhost') || BACKEND_API.includes('127.0.0.1'))) {
-          if (userId) headers['X-UID'] = userId;
-          if (devEmail) headers['X-EMAIL'] = devEmail;
-        }
-      } else if (devEmail && userId) {
-        // Dev mode without auth token
-        headers["X-EMAIL"] = devEmail;
-        headers["X-UID"] = userId;
-      }
+      const patch = {
+        service_area: serviceArea,
+        service_radius_km: Math.ceil(enclosingRadiusKm(serviceArea, ngoLocation || undefined)),
+      };
+      await api.ngos.update(String(ngo.ngo_id), patch);
+      setNgo({ ...ngo, ...patch });
+      toast.success("Service area saved");
+    } catch (err) {
+      console.error("Error saving service area", err);
+      toast.error("Could not save the service area");
+    } finally {
+      setSavingArea(false);
+    }
+  };
 
-      const res = await fetch(`${BACKEND_API}/users/profile`, { method: "GET", headers });
-      if (!res.ok) {
-        console.error("Failed fetching profile", res.status);
-        return null;
-      }
-      const data = await res.json().catch(() => ({}));
-      const p = data.profile || {};
+  // the NGO record is looked up by email; ordinary users have none
+  useEffect(() => {
+    if (!profileData.email || !isApiConfigured()) return;
+    findNgoByEmail(profileData.email)
+      .then(setNgo)
+      .catch((err) => console.warn("Error fetching NGO", err));
+  }, [profileData.email]);
+
+  // Fetch profile: apiClient sends the Firebase idToken, or without a session the
+  // localStorage email/uid (dev) as X-EMAIL / X-UID so backend in LOCAL_DEV mode can return it.
+  async function fetchProfile() {
+    try {
+      const p = await api.users.profile();
       return {
         name: p.name || "",
         email: p.email || "",
@@ -108,23 +126,22 @@ export default function ProfilePage({}): React.ReactNode {
         bio: p.bio || "",
         joinedDate: p.joinedDate || ""
       };
-    } catch {
-      console.error("Error fetching profile");
+    } catch (err) {
+      console.error("Error fetching profile", err);
       return null;
     }
   }
 
   useEffect(() => {
     if (typeof window === "undefined") return;
-    if (!getApps().length) initializeApp(FIREBASE_CONFIG);
-    const auth = getAuth();
-    const unsub = onAuthStateChanged(auth, async (u) => {
+    if (!isFakeAuth() && !getApps().length) initializeApp(FIREBASE_CONFIG);
+    const unsub = watchAuthUser(async (u) => {
       if (!u) {
         // If a developer left an email and uid in localStorage, try to use them in LOCAL_DEV mode
         const devEmail = typeof window !== "undefined" ? localStorage.getItem("email") : null;
         const devUid = typeof window !== "undefined" ? localStorage.getItem("uid") : null;
-        if (devEmail && devUid && BACKEND_API) {
-          const profile = await fetchProfileWithToken(undefined, devEmail, devUid);
+        if (devEmail && devUid && isApiConfigured()) {
+          const profile = await fetchProfile();
           if (profile) {
             setProfileData(profile);
             return;
@@ -135,8 +152,7 @@ export default function ProfilePage({}): React.ReactNode {
       }
 
       try {
-        const idToken = await u.getIdToken();
-        const profile = await fetchProfileWithToken(idToken, u.email || undefined, u.uid);
+        const profile = await fetchProfile();
         if (profile) {
           setProfileData(profile);
           // ensure localStorage email and uid are set for easy reference elsewhere
@@ -164,8 +180,7 @@ export default function ProfilePage({}): React.ReactNode {
 
   const handleSignOut = async () => {
     try {
-      const auth = getAuth();
-      await signOut(auth);
+      await signOutUser();
     } catch {
       console.error("Sign out failed");
     } finally {
@@ -264,6 +279,24 @@ export default function ProfilePage({}): React.ReactNode {
           </CardContent>
         </Card>
 
+        {ngo && (
+          <Card className="mb-8">
+            <CardHeader>
+              <h3 className="text-xl font-semibold" style={{ color: THEME.primary }}>Service Area</h3>
+              <p className="text-sm" style={{ color: CONTENT_TEXT }}>
+                Where {ngo.name || "your NGO"} takes cases. The dashboard shows which cases fall inside it.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ServiceAreaEditor key={String(ngo.ngo_id)} initialArea={ngoServiceArea(ngo)} center={ngoLocation} onChange={setServiceArea} />
+              <Button onClick={handleSaveServiceArea} disabled={!serviceArea || savingArea}>
+                <Save className="w-4 h-4 mr-2" />
+                {savingArea ? "Saving…" : "Save service area"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
           <Card style={{ background: "#eaf7ff" }}>
@@ -1,11 +1,12 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Upload, MapPin, Send, AlertCircle, Loader2, Navigation } from "lucide-react";
+import { MapPin, Send, AlertCircle, Loader2, Navigation, Map as MapIcon, ShieldAlert, Lightbulb } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import {
   Select,
@@ -16,6 +17,24 @@ import {
 } from "@/components/ui/select";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { PendingUploads } from "@/components/PendingUploads";
+import { MAX_REPORT_MEDIA_BYTES, ReportMedia, ReportMediaPicker, mediaBytes } from "@/components/ReportMediaPicker";
+import { LatLng, LocationPinPicker } from "@/components/LocationPinPicker";
+import { REPORT_QUEUE_EVENT, enqueueReport, newClientReportId, sendReport, withReviewOverride } from "@/lib/reportQueue";
+import {
+  EMPTY_REPORT_FORM,
+  ReportDraft,
+  ReportFormData,
+  clearReportDraft,
+  loadReportDraft,
+  saveReportDraft,
+} from "@/lib/reportDraft";
+import { INJURY_TYPES, SPECIES, speciesFromLabels } from "@/lib/taxonomy";
+import { suggestSeverity } from "@/lib/severityScoring";
+import { PossibleDuplicate, attachToCase, findPossibleDuplicates } from "@/lib/duplicateReports";
+import { isApiConfigured } from "@/lib/apiClient";
+import { listRememberedTrackingCodes, rememberTrackingCode, trackingCodeFrom } from "@/lib/caseTracking";
 
 const THEME = {
   primary: "#19C2E6",
@@ -25,7 +44,6 @@ const THEME = {
 };
 
 const GOOGLE_MAPS_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY!;
-const BACKEND_API = process.env.NEXT_PUBLIC_BACKEND_API;
 
 // ---- Types ----
 
@@ -50,29 +68,153 @@ interface LocationAutocompleteResponse {
   predictions?: LocationAutocompletePrediction[];
 }
 
+async function geocodeAddress(address: string): Promise<LatLng | null> {
+  if (!GOOGLE_MAPS_API_KEY) return null;
+  try {
+    const geoRes = await fetch(
+      `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(
+        address
+      )}&key=${GOOGLE_MAPS_API_KEY}`
+    );
+    const geo = await geoRes.json();
+    if (
+      geo.results &&
+      geo.results[0] &&
+      geo.results[0].geometry &&
+      geo.results[0].geometry.location
+    ) {
+      return {
+        lat: geo.results[0].geometry.location.lat,
+        lng: geo.results[0].geometry.location.lng,
+      };
+    }
+  } catch (err) {
+    console.error("Geocode error", err);
+  }
+  return null;
+}
+
 export default function ReportPage() {
   const router = useRouter();
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [media, setMedia] = useState<ReportMedia[]>([]);
+  const [primaryMediaId, setPrimaryMediaId] = useState<string | null>(null);
   const [locationSuggestions, setLocationSuggestions] = useState<string[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [isGettingLocation, setIsGettingLocation] = useState(false);
+  // exact position from the map pin, GPS or a geocoded suggestion
+  const [coords, setCoords] = useState<LatLng | null>(null);
+  const [showMap, setShowMap] = useState(false);
   const locationInputRef = useRef<HTMLInputElement>(null);
   const suggestionsRef = useRef<HTMLDivElement>(null);
 
-  const [formData, setFormData] = useState({
-    description: "",
-    severity: "",
-    contactName: "",
-    contactPhone: "",
-    location: "",
-  });
+  const [formData, setFormData] = useState<ReportFormData>(EMPTY_REPORT_FORM);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
+  const [trackingCode, setTrackingCode] = useState<string | null>(null);
+  const [recentCodes, setRecentCodes] = useState<string[]>([]);
+
+  // Unfinished report found on load; autosave is paused until the user decides
+  const [pendingDraft, setPendingDraft] = useState<ReportDraft | null>(null);
+  const [draftChecked, setDraftChecked] = useState(false);
+
+  useEffect(() => {
+    loadReportDraft().then((draft) => {
+      setPendingDraft(draft);
+      setDraftChecked(true);
+    });
+  }, []);
+
+  const latestDraftRef = useRef({ formData, media, primaryMediaId, coords });
+  useEffect(() => {
+    latestDraftRef.current = { formData, media, primaryMediaId, coords };
+  }, [formData, media, primaryMediaId, coords]);
+
+  const autosaveEnabled = draftChecked && !pendingDraft && !submitted;
+
+  // Autosave shortly after every change...
+  useEffect(() => {
+    if (!autosaveEnabled) return;
+    const handler = setTimeout(() => {
+      saveReportDraft(latestDraftRef.current);
+    }, 800);
+    return () => clearTimeout(handler);
+  }, [autosaveEnabled, formData, media, primaryMediaId, coords]);
+
+  // ...and immediately when the tab is hidden (e.g. switching to the camera app)
+  useEffect(() => {
+    if (!autosaveEnabled) return;
+    const flush = () => {
+      if (document.visibilityState === "hidden") saveReportDraft(latestDraftRef.current);
+    };
+    document.addEventListener("visibilitychange", flush);
+    return () => document.removeEventListener("visibilitychange", flush);
+  }, [autosaveEnabled]);
+
+  const resumeDraft = () => {
+    if (!pendingDraft) return;
+    setFormData(pendingDraft.formData);
+    setMedia(pendingDraft.media);
+    setPrimaryMediaId(pendingDraft.primaryMediaId);
+    setCoords(pendingDraft.coords);
+    setPendingDraft(null);
+    toast.success("Unfinished report restored");
+  };
+
+  const discardDraft = async () => {
+    setPendingDraft(null);
+    await clearReportDraft();
+    toast.info("Unfinished report discarded");
+  };
+
+  // Tracking codes of reports sent from this device (including queued uploads)
+  useEffect(() => {
+    const reload = () => setRecentCodes(listRememberedTrackingCodes());
+    reload();
+    window.addEventListener(REPORT_QUEUE_EVENT, reload);
+    return () => window.removeEventListener(REPORT_QUEUE_EVENT, reload);
+  }, [trackingCode]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
   const [detectionResult, setDetectionResult] = useState<DetectionResult | null>(null);
+  // payload of the last report the AI rejected, kept for "submit anyway"
+  const rejectedPayloadRef = useRef<Record<string, unknown> | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
+  const [sentForReview, setSentForReview] = useState(false);
+  // nearby open cases that may be the same animal, with the payload held back
+  const [duplicates, setDuplicates] = useState<PossibleDuplicate[]>([]);
+  const duplicatePayloadRef = useRef<Record<string, unknown> | null>(null);
+  const [attachingTo, setAttachingTo] = useState<string | null>(null);
+  const [attachedTo, setAttachedTo] = useState<string | null>(null);
+
+  // the held-back payload is stale once the reporter edits the form
+  useEffect(() => {
+    duplicatePayloadRef.current = null;
+    setDuplicates((prev) => (prev.length > 0 ? [] : prev));
+  }, [formData, media, coords]);
+  const detectedSpecies = speciesFromLabels(detectionResult?.rekognition_labels);
+
+  // Pre-fill species from the AI label unless the reporter already chose one
+  useEffect(() => {
+    if (detectedSpecies) {
+      setFormData((prev) => (prev.species ? prev : { ...prev, species: detectedSpecies }));
+    }
+  }, [detectedSpecies]);
+
+  const severitySuggestion = suggestSeverity({
+    injuryTypes: formData.injuryTypes,
+    description: formData.description,
+    labels: detectionResult?.rekognition_labels,
+  });
+
+  const toggleInjuryType = (value: string, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      injuryTypes: checked
+        ? [...prev.injuryTypes.filter((t) => t !== value), value]
+        : prev.injuryTypes.filter((t) => t !== value),
+    }));
+  };
 
   // Close suggestions when clicking outside
   useEffect(() => {
@@ -91,16 +233,20 @@ export default function ReportPage() {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-        setImageFile(file);
-      };
-      reader.readAsDataURL(file);
-    }
+  // Pre-fill the location from a photo's EXIF GPS when the reporter has not set one
+  // (photos finish processing asynchronously, so read the latest value via a ref)
+  const locationValueRef = useRef("");
+  useEffect(() => {
+    locationValueRef.current = formData.location;
+  }, [formData.location]);
+
+  const handleImageGps = (gps: { latitude: number; longitude: number }) => {
+    if (locationValueRef.current) return;
+    const location = `${gps.latitude.toFixed(6)}, ${gps.longitude.toFixed(6)}`;
+    locationValueRef.current = location;
+    setFormData((prev) => ({ ...prev, location }));
+    setCoords({ lat: gps.latitude, lng: gps.longitude });
+    toast.info("Location filled in from your photo");
   };
 
   const getLocationSuggestions = async (input: string) => {
@@ -149,12 +295,25 @@ export default function ReportPage() {
   const handleLocationInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setFormData({ ...formData, location: value });
+    // a GPS fix, photo position or picked suggestion no longer matches the
+    // typed text; submit geocodes the new address instead
+    setCoords(null);
   };
 
-  const handleSuggestionClick = (suggestion: string) => {
+  const handleSuggestionClick = async (suggestion: string) => {
     setFormData({ ...formData, location: suggestion });
     setShowSuggestions(false);
     setLocationSuggestions([]);
+    const found = await geocodeAddress(suggestion);
+    if (found) setCoords(found);
+  };
+
+  const handlePinChange = (pin: LatLng, address?: string) => {
+    setCoords(pin);
+    setFormData((prev) => ({
+      ...prev,
+      location: address || `${pin.lat.toFixed(6)}, ${pin.lng.toFixed(6)}`,
+    }));
   };
 
   const getLocation = () => {
@@ -164,6 +323,7 @@ export default function ReportPage() {
       navigator.geolocation.getCurrentPosition(
         async (position) => {
           const { latitude, longitude } = position.coords;
+          setCoords({ lat: latitude, lng: longitude });
 
           try {
             const response = await fetch(
@@ -207,11 +367,24 @@ export default function ReportPage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!imageFile) {
+    const photos = media.filter((m) => m.kind === "image");
+    if (photos.length === 0) {
       toast.error("Please upload an image");
       return;
     }
 
+    if (media.some((m) => !m.dataUrl)) {
+      toast.error("Please wait for your photos and video to finish loading");
+      return;
+    }
+
+    // the primary photo goes out twice (image_base64 and images_base64)
+    const primaryPhoto = photos.find((m) => m.id === primaryMediaId) || photos[0];
+    if (mediaBytes(media) + mediaBytes([primaryPhoto]) > MAX_REPORT_MEDIA_BYTES) {
+      toast.error(`Photos and video are too large to send together (max ${MAX_REPORT_MEDIA_BYTES / (1024 * 1024)}MB). Remove a photo or the video.`);
+      return;
+    }
+
     if (!formData.location) {
       toast.error("Please provide a location");
       return;
@@ -231,125 +404,240 @@ export default function ReportPage() {
     setIsSubmitting(true);
     setIsAnalyzing(true);
     setDetectionResult(null);
+    setDuplicates([]);
+    rejectedPayloadRef.current = null;
 
     // Determine latitude / longitude
     let latitude: number | null = null;
     let longitude: number | null = null;
 
-    const coordMatch = formData.location.match(/(-?\d+\.\d+)\s*,\s*(-?\d+\.\d+)/);
-    if (coordMatch) {
-      latitude = parseFloat(coordMatch[1]);
-      longitude = parseFloat(coordMatch[2]);
-    } else if (GOOGLE_MAPS_API_KEY) {
-      try {
-        const geoRes = await fetch(
-          `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(
-            formData.location
-          )}&key=${GOOGLE_MAPS_API_KEY}`
-        );
-        const geo = await geoRes.json();
-        if (
-          geo.results &&
-          geo.results[0] &&
-          geo.results[0].geometry &&
-          geo.results[0].geometry.location
-        ) {
-          latitude = geo.results[0].geometry.location.lat;
-          longitude = geo.results[0].geometry.location.lng;
-        }
-      } catch (err) {
-        console.error("Geocode error", err);
+    if (coords) {
+      latitude = coords.lat;
+      longitude = coords.lng;
+    } else {
+      const coordMatch = formData.location.match(/(-?\d+\.\d+)\s*,\s*(-?\d+\.\d+)/);
+      const found = coordMatch
+        ? { lat: parseFloat(coordMatch[1]), lng: parseFloat(coordMatch[2]) }
+        : await geocodeAddress(formData.location);
+      if (found) {
+        latitude = found.lat;
+        longitude = found.lng;
       }
     }
 
-    const toBase64 = (file: File) =>
-      new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          const result = reader.result as string;
-          const parts = result.split(",");
-          resolve(parts.length > 1 ? parts[1] : parts[0]);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(file);
-      });
-
-    let imageBase64: string;
-    try {
-      imageBase64 = await toBase64(imageFile);
-    } catch (err) {
-      console.error("Failed to convert image to base64", err);
-      toast.error("Failed to read image file");
-      setIsSubmitting(false);
-      setIsAnalyzing(false);
-      return;
-    }
+    // strip the "data:<type>;base64," prefix
+    const toBase64 = (dataUrl: string) => {
+      const parts = dataUrl.split(",");
+      return parts.length > 1 ? parts[1] : parts[0];
+    };
+
+    const primary = photos.find((m) => m.id === primaryMediaId) || photos[0];
+    const video = media.find((m) => m.kind === "video");
 
     const payload: Record<string, unknown> = {
-      image_base64: imageBase64,
+      // lets the backend drop a repeat of this report (retry after a lost response)
+      client_report_id: newClientReportId(),
+      // the backend labels the primary photo from image_base64; images_base64 carries them all
+      image_base64: toBase64(primary.dataUrl!),
+      images_base64: photos.map((m) => toBase64(m.dataUrl!)),
+      primary_image_index: photos.indexOf(primary),
       description: formData.description,
       severity: formData.severity,
+      severity_suggested: severitySuggestion.severity,
+      severity_score: severitySuggestion.score,
+      severity_reasons: severitySuggestion.reasons,
       contact_name: formData.contactName,
       contact_phone: formData.contactPhone,
       location: formData.location,
+      species: formData.species || detectedSpecies || "",
+      // "ai" tells the backend to fill species from its own Rekognition labels
+      species_source: formData.species ? "user" : "ai",
+      injury_types: formData.injuryTypes,
+      animal_count: formData.animalCount,
     };
+    if (video) {
+      payload.video_base64 = toBase64(video.dataUrl!);
+      payload.video_content_type = video.contentType;
+    }
     if (latitude !== null) payload.latitude = latitude;
     if (longitude !== null) payload.longitude = longitude;
 
-    if (!BACKEND_API) {
+    if (!isApiConfigured()) {
       toast.error("Backend API not configured (NEXT_PUBLIC_BACKEND_API)");
       setIsSubmitting(false);
       setIsAnalyzing(false);
       return;
     }
 
-    try {
-      const res = await fetch(`${BACKEND_API}/report-case`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
+    // Someone else may already have reported this animal
+    if (latitude !== null && longitude !== null && navigator.onLine) {
+      const candidates = await findPossibleDuplicates(latitude, longitude);
+      if (candidates.length > 0) {
+        duplicatePayloadRef.current = payload;
+        setDuplicates(candidates);
+        setIsSubmitting(false);
+        setIsAnalyzing(false);
+        toast.info("This animal may already have been reported nearby");
+        return;
+      }
+    }
 
-      const data = (await res.json().catch(() => ({}))) as DetectionResult;
+    await submitNewReport(payload);
+  };
 
-      setIsAnalyzing(false);
+  const submitNewReport = async (payload: Record<string, unknown>) => {
+    setIsSubmitting(true);
+    setIsAnalyzing(true);
 
-      if (!res.ok) {
-        console.error("Backend error", res.status, data);
-        toast.error(
-          `Failed to submit report: ${
-            (data.error as string) ||
-            (data.message as string) ||
-            res.status
-          }`
-        );
+    const queueForLater = async () => {
+      try {
+        await enqueueReport(payload);
+        toast.warning("You're offline — report saved on this device and will upload automatically");
+        await clearReportDraft();
+        setFormData(EMPTY_REPORT_FORM);
+        setCoords(null);
+        setMedia([]);
+        setPrimaryMediaId(null);
+      } catch (err) {
+        console.error("Failed to save report offline", err);
+        toast.error("Network error: failed to submit report");
+      } finally {
         setIsSubmitting(false);
-        return;
+        setIsAnalyzing(false);
       }
+    };
+
+    if (typeof navigator !== "undefined" && !navigator.onLine) {
+      await queueForLater();
+      return;
+    }
+
+    const result = await sendReport(payload);
+    if (result.networkError) {
+      await queueForLater();
+      return;
+    }
+
+    const data = result.data as DetectionResult;
+
+    setIsAnalyzing(false);
+
+    if (!result.ok) {
+      console.error("Backend error", result.status, data);
+      toast.error(
+        `Failed to submit report: ${
+          (data.error as string) ||
+          (data.message as string) ||
+          result.status
+        }`
+      );
+      setIsSubmitting(false);
+      return;
+    }
+
+    setDetectionResult(data);
+
+    if (data.status === "invalid_image") {
+      rejectedPayloadRef.current = payload;
+      setOverrideReason("");
+      toast.error((data.message as string) || "This does not appear to be an animal");
+      setIsSubmitting(false);
+      return;
+    }
+
+    setIsSubmitting(false);
+    toast.success("Animal detected — case submitted");
+    finishSubmission(data);
+  };
 
-      setDetectionResult(data);
+  // Reporter disagrees with the AI (night photo, bad lighting, ...): file the
+  // case anyway, flagged unverified for an NGO to confirm or dismiss.
+  const submitForReview = async () => {
+    if (!rejectedPayloadRef.current) return;
+    const payload = withReviewOverride(rejectedPayloadRef.current, overrideReason);
 
-      if (data.status === "invalid_image") {
-        toast.error((data.message as string) || "This does not appear to be an animal");
+    setIsSubmitting(true);
+    const result = await sendReport(payload);
+    if (result.networkError) {
+      try {
+        await enqueueReport(payload);
+        toast.warning("You're offline — report saved on this device and will upload automatically");
+        rejectedPayloadRef.current = null;
+        setDetectionResult(null);
+      } catch (err) {
+        console.error("Failed to save report offline", err);
+        toast.error("Network error: failed to submit report");
+      } finally {
         setIsSubmitting(false);
-        return;
       }
+      return;
+    }
 
-      setIsSubmitting(false);
-      setSubmitted(true);
-      toast.success("Animal detected — case submitted");
+    setIsSubmitting(false);
+    const data = result.data as DetectionResult;
+    if (!result.ok || data.status === "invalid_image") {
+      console.error("Review override failed", result.status, data);
+      toast.error(
+        `Failed to submit report: ${
+          (data.error as string) || (data.message as string) || result.status
+        }`
+      );
+      return;
+    }
+
+    rejectedPayloadRef.current = null;
+    setSentForReview(true);
+    setDetectionResult(data);
+    toast.success("Report sent for human review");
+    finishSubmission(data);
+  };
+
+  // Reporter says the nearby cases are a different animal
+  const submitDespiteDuplicates = async () => {
+    const payload = duplicatePayloadRef.current;
+    if (!payload) return;
+    duplicatePayloadRef.current = null;
+    setDuplicates([]);
+    await submitNewReport(payload);
+  };
 
-      setTimeout(() => {
-        router.push("/");
-      }, 5000);
+  const attachToExistingCase = async (caseId: string) => {
+    const payload = duplicatePayloadRef.current;
+    if (!payload) return;
+    setAttachingTo(caseId);
+    try {
+      const data = await attachToCase(caseId, payload);
+      duplicatePayloadRef.current = null;
+      setDuplicates([]);
+      setAttachedTo(caseId);
+      setDetectionResult(data as DetectionResult);
+      toast.success("Your photos and notes were added to the existing case");
+      finishSubmission(data as DetectionResult);
     } catch (err) {
-      console.error("Submit failed", err);
-      toast.error("Network error: failed to submit report");
-      setIsSubmitting(false);
-      setIsAnalyzing(false);
+      console.error("Attach to case failed", err);
+      toast.error(`Failed to add to case: ${(err as Error).message}`);
+    } finally {
+      setAttachingTo(null);
     }
   };
 
+  const finishSubmission = (data: DetectionResult) => {
+    setSubmitted(true);
+    clearReportDraft();
+
+    const code = trackingCodeFrom(data);
+    if (code) {
+      rememberTrackingCode(code);
+      setTrackingCode(code);
+      return;
+    }
+
+    // no tracking code from the backend: nothing to follow, go home
+    setTimeout(() => {
+      router.push("/");
+    }, 5000);
+  };
+
   return (
     <div
       className="min-h-screen py-12 px-4 sm:px-6 lg:px-8"
@@ -369,6 +657,39 @@ export default function ReportPage() {
           </p>
         </div>
 
+        {pendingDraft && (
+          <Card className="mb-6" style={{ borderColor: THEME.accent }}>
+            <CardContent className="pt-6">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className="flex-1">
+                  <p className="font-semibold" style={{ color: THEME.primary }}>
+                    Resume your unfinished report?
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Saved {new Date(pendingDraft.savedAt).toLocaleString()}
+                    {pendingDraft.media.length > 0
+                      ? ` • ${pendingDraft.media.length} file${pendingDraft.media.length > 1 ? "s" : ""}`
+                      : ""}
+                    {pendingDraft.formData.location ? ` • ${pendingDraft.formData.location}` : ""}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    onClick={resumeDraft}
+                    style={{ background: THEME.cta, color: THEME.text }}
+                  >
+                    Resume
+                  </Button>
+                  <Button type="button" variant="outline" onClick={discardDraft}>
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <h2 className="text-xl font-semibold" style={{ color: THEME.primary }}>
@@ -377,41 +698,19 @@ export default function ReportPage() {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-6">
-              {/* Image Upload */}
+              {/* Photos & video */}
               <div className="space-y-2">
-                <Label style={{ color: THEME.primary }}>Upload Photo *</Label>
-                <div className="border-2 border-dashed border-blue-300 rounded-lg p-8 text-center hover:border-yellow-400 transition-colors">
-                  {imagePreview ? (
-                    <div className="space-y-4">
-                      <img
-                        src={imagePreview}
-                        alt="Preview"
-                        className="max-h-64 mx-auto rounded-lg"
-                      />
-                      <Button
-                        type="button"
-                        variant="outline"
-                        onClick={() => setImagePreview(null)}
-                      >
-                        Change Image
-                      </Button>
-                    </div>
-                  ) : (
-                    <label className="cursor-pointer">
-                      <input
-                        type="file"
-                        accept="image/*"
-                        className="hidden"
-                        onChange={handleImageUpload}
-                      />
-                      <Upload className="w-12 h-12 mx-auto mb-4" />
-                      <p className="mb-2">Click to upload or drag and drop</p>
-                      <p className="text-sm text-blue-400">
-                        PNG, JPG, GIF up to 10MB
-                      </p>
-                    </label>
-                  )}
-                </div>
+                <Label style={{ color: THEME.primary }}>Upload Photos *</Label>
+                <p className="text-xs text-gray-500">
+                  Extra angles of the injury help NGOs prepare before they arrive.
+                </p>
+                <ReportMediaPicker
+                  items={media}
+                  onItemsChange={setMedia}
+                  primaryId={primaryMediaId}
+                  onPrimaryChange={setPrimaryMediaId}
+                  onImageGps={handleImageGps}
+                />
               </div>
 
               {/* Location */}
@@ -471,8 +770,24 @@ export default function ReportPage() {
                     )}
                     {isGettingLocation ? "Detecting..." : "Detect Location"}
                   </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setShowMap((v) => !v)}
+                    className="whitespace-nowrap border-blue-300 bg-blue-50 hover:bg-blue-100 text-blue-700 hover:text-blue-800"
+                  >
+                    <MapIcon className="w-4 h-4 mr-2" />
+                    {showMap ? "Hide Map" : "Pick on Map"}
+                  </Button>
                 </div>
-                <p className="text-xs text-gray-500">Powered by Google Maps</p>
+                {showMap && (
+                  <LocationPinPicker value={coords} onChange={handlePinChange} />
+                )}
+                <p className="text-xs text-gray-500">
+                  {coords
+                    ? `Pinned at ${coords.lat.toFixed(6)}, ${coords.lng.toFixed(6)} • Powered by Google Maps`
+                    : "Powered by Google Maps"}
+                </p>
               </div>
 
               {/* Description */}
@@ -522,6 +837,100 @@ export default function ReportPage() {
                     </SelectItem>
                   </SelectContent>
                 </Select>
+                <div className="rounded-md p-3 text-sm" style={{ background: "#eaf7ff", color: "#111827" }}>
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="flex items-center gap-1 font-medium">
+                      <Lightbulb className="w-4 h-4" style={{ color: THEME.cta }} />
+                      Suggested: {severitySuggestion.severity}
+                    </p>
+                    {formData.severity !== severitySuggestion.severity && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          setFormData((prev) => ({ ...prev, severity: severitySuggestion.severity }))
+                        }
+                      >
+                        Use suggestion
+                      </Button>
+                    )}
+                  </div>
+                  <ul className="list-disc ml-5 mt-1 text-xs text-gray-600">
+                    {severitySuggestion.reasons.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+
+              {/* Species & count */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="species" style={{ color: THEME.primary }}>
+                    Species
+                  </Label>
+                  <Select
+                    value={formData.species || "auto"}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, species: value === "auto" ? "" : value })
+                    }
+                  >
+                    <SelectTrigger id="species" className="text-black">
+                      <SelectValue placeholder="Select species" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto" className="text-black">
+                        Let AI detect from photo
+                      </SelectItem>
+                      {SPECIES.map((sp) => (
+                        <SelectItem key={sp} value={sp} className="text-black">
+                          {sp}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {detectedSpecies && (
+                    <p className="text-xs text-gray-500">AI suggestion: {detectedSpecies}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="animalCount" style={{ color: THEME.primary }}>
+                    Number of Animals
+                  </Label>
+                  <Input
+                    id="animalCount"
+                    type="number"
+                    min={1}
+                    value={formData.animalCount}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        animalCount: Math.max(1, parseInt(e.target.value, 10) || 1),
+                      })
+                    }
+                    className="text-black"
+                  />
+                </div>
+              </div>
+
+              {/* Injury types */}
+              <div className="space-y-2">
+                <Label style={{ color: THEME.primary }}>What's wrong? (select all that apply)</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {INJURY_TYPES.map((t) => (
+                    <div key={t.value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`injury-${t.value}`}
+                        checked={formData.injuryTypes.includes(t.value)}
+                        onCheckedChange={(checked) => toggleInjuryType(t.value, checked === true)}
+                      />
+                      <label htmlFor={`injury-${t.value}`} className="text-sm text-black">
+                        {t.label}
+                      </label>
+                    </div>
+                  ))}
+                </div>
               </div>
 
               {/* Contact Info */}
@@ -594,6 +1003,92 @@ export default function ReportPage() {
           </CardContent>
         </Card>
 
+        {/* Possible duplicates */}
+        {duplicates.length > 0 && (
+          <Card className="mt-6" style={{ borderColor: THEME.accent }}>
+            <CardHeader>
+              <h2 className="text-lg font-semibold" style={{ color: THEME.primary }}>
+                Is this the same animal?
+              </h2>
+              <p className="text-sm text-gray-600">
+                {duplicates.length === 1 ? "A case was" : `${duplicates.length} cases were`} reported
+                close to this spot recently. If it is the same animal, add your photos and notes
+                to that case so rescuers are not sent twice.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {duplicates.map((d) => (
+                <div
+                  key={d.caseId}
+                  className="flex items-center gap-3 rounded-lg border border-gray-200 p-3"
+                  style={{ color: "#111827" }}
+                >
+                  {d.thumbnailUrl ? (
+                    <img src={d.thumbnailUrl} alt="Existing case" className="w-16 h-16 rounded object-cover flex-shrink-0" />
+                  ) : (
+                    <div className="w-16 h-16 rounded bg-gray-100 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {d.species ? `${d.species} • ` : ""}
+                      {d.description || d.location || `Case #${d.caseId}`}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {Math.round(d.distanceMeters)} m away
+                      {d.createdAt ? ` • ${new Date(d.createdAt).toLocaleString()}` : ""}
+                      {` • ${d.status}`}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    disabled={attachingTo !== null}
+                    onClick={() => attachToExistingCase(d.caseId)}
+                    style={{ background: THEME.cta, color: "#fff" }}
+                  >
+                    {attachingTo === d.caseId && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    Same animal
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                disabled={attachingTo !== null || isSubmitting}
+                onClick={submitDespiteDuplicates}
+              >
+                It's a different animal — submit a new report
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Reports saved while offline */}
+        <PendingUploads />
+
+        {/* Previously submitted reports */}
+        {recentCodes.length > 0 && (
+          <Card className="mt-6">
+            <CardContent className="pt-6">
+              <p className="font-semibold mb-2" style={{ color: THEME.primary }}>
+                Your recent reports
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {recentCodes.slice(0, 5).map((code) => (
+                  <Link
+                    key={code}
+                    href={`/case/${encodeURIComponent(code)}`}
+                    className="font-mono text-sm px-2 py-1 rounded border border-blue-200 bg-blue-50 text-blue-800 hover:bg-blue-100"
+                  >
+                    {code}
+                  </Link>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Analyzing / Detection feedback */}
         {isAnalyzing && (
           <Card className="mt-6" style={{ borderColor: THEME.primary }}>
@@ -644,6 +1139,36 @@ export default function ReportPage() {
                       </ul>
                     </div>
                   ) : null}
+
+                  {rejectedPayloadRef.current && (
+                    <div className="mt-4 rounded-lg border border-gray-200 p-3 space-y-2">
+                      <p className="text-sm text-gray-700">
+                        Is there really an animal in need? Dark or blurry photos are
+                        sometimes misread. You can submit anyway — the case will be
+                        marked unverified until a rescue team reviews it.
+                      </p>
+                      <Textarea
+                        value={overrideReason}
+                        onChange={(e) => setOverrideReason(e.target.value)}
+                        placeholder="Optional: what's in the photo? (e.g. injured dog under a car, taken at night)"
+                        rows={2}
+                        className="text-black"
+                      />
+                      <Button
+                        type="button"
+                        onClick={submitForReview}
+                        disabled={isSubmitting}
+                        style={{ background: THEME.cta, color: "#fff" }}
+                      >
+                        {isSubmitting ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <ShieldAlert className="w-4 h-4 mr-2" />
+                        )}
+                        Submit anyway for human review
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -658,7 +1183,27 @@ export default function ReportPage() {
               <CardContent className="pt-6">
                 <div className="flex items-start gap-3">
                   <div className="flex-1">
-                    {Array.isArray(detectionResult.rekognition_labels) &&
+                    {attachedTo ? (
+                      <>
+                        <p className="font-bold text-green-800 text-lg">
+                          Added to an existing case
+                        </p>
+                        <p className="text-sm text-gray-700 mt-1">
+                          This animal was already reported. Your photos and notes
+                          were added to case #{attachedTo} to help the rescue team.
+                        </p>
+                      </>
+                    ) : sentForReview ? (
+                      <>
+                        <p className="font-bold text-green-800 text-lg">
+                          Sent for human review
+                        </p>
+                        <p className="text-sm text-gray-700 mt-1">
+                          Your report was filed as unverified. A rescue team will
+                          look at the photo and confirm the case.
+                        </p>
+                      </>
+                    ) : Array.isArray(detectionResult.rekognition_labels) &&
                     detectionResult.rekognition_labels.length > 0 ? (
                       (() => {
                         const top = detectionResult.rekognition_labels![0];
@@ -686,7 +1231,8 @@ export default function ReportPage() {
                       </>
                     )}
 
-                    {Array.isArray(detectionResult.rekognition_labels) &&
+                    {!sentForReview && !attachedTo &&
+                      Array.isArray(detectionResult.rekognition_labels) &&
                       detectionResult.rekognition_labels.length > 1 && (
                         <div className="mt-3 text-sm text-gray-700">
                           <strong>Other top labels:</strong>
@@ -703,8 +1249,27 @@ export default function ReportPage() {
                           </ul>
                         </div>
                       )}
+
+                    {trackingCode && (
+                      <div className="mt-4 rounded-lg p-3" style={{ background: "#eaf7ff" }}>
+                        <p className="text-sm text-gray-700">
+                          Your tracking code is{" "}
+                          <span className="font-mono font-semibold text-black">{trackingCode}</span>.
+                          Follow the rescue or share this link:
+                        </p>
+                        <Link
+                          href={`/case/${encodeURIComponent(trackingCode)}`}
+                          className="inline-block mt-2 font-semibold underline"
+                          style={{ color: THEME.cta }}
+                        >
+                          Track this rescue
+                        </Link>
+                      </div>
+                    )}
                   </div>
-                  <Loader2 className="w-5 h-5 text-green-600 animate-spin" />
+                  {!trackingCode && (
+                    <Loader2 className="w-5 h-5 text-green-600 animate-spin" />
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -12,6 +12,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { MapPin, Navigation } from "lucide-react";
 import { toast } from "sonner";
+import { CaseClosure, api } from "@/lib/apiClient";
+import { CaseClosureDialog } from "@/components/CaseClosureDialog";
+import { currentAuthUser } from "@/lib/authUser";
+import { logCaseEvent } from "@/lib/caseTimeline";
+import { haversineMeters } from "@/lib/geo";
 
 const GOOGLE_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
 const MAP_STYLE: React.CSSProperties = {
@@ -21,19 +26,13 @@ const MAP_STYLE: React.CSSProperties = {
   overflow: "hidden",
 };
 
-// small helper: distance (meters) between two lat/lng using Haversine
-function haversineMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }) {
-  const toRad = (v: number) => (v * Math.PI) / 180;
-  const R = 6371000;
-  const dLat = toRad(b.lat - a.lat);
-  const dLon = toRad(b.lng - a.lng);
-  const lat1 = toRad(a.lat);
-  const lat2 = toRad(b.lat);
-  const sinDlat = Math.sin(dLat / 2);
-  const sinDlon = Math.sin(dLon / 2);
-  const aHarv = sinDlat * sinDlat + Math.cos(lat1) * Math.cos(lat2) * sinDlon * sinDlon;
-  const c = 2 * Math.atan2(Math.sqrt(aHarv), Math.sqrt(1 - aHarv));
-  return R * c;
+// who is doing the rescue, for the case timeline
+function actorEmail() {
+  try {
+    return currentAuthUser()?.email || localStorage.getItem("email");
+  } catch {
+    return null;
+  }
 }
 
 // ✅ Default export: wrapper with Suspense around the component that uses useSearchParams
@@ -80,7 +79,10 @@ function TrackingPageInner() {
     null
   );
   const [error, setError] = useState<string | null>(null);
-  const [closingCase, setClosingCase] = useState(false);
+  const [showClosure, setShowClosure] = useState(false);
+  const [arrived, setArrived] = useState(false);
+  // en route is logged once per visit, on the first start of live tracking
+  const enRouteLoggedRef = useRef(false);
 
   // live tracking state
   const watchIdRef = useRef<number | null>(null);
@@ -292,6 +294,11 @@ function TrackingPageInner() {
       return;
     }
 
+    if (caseId && !enRouteLoggedRef.current) {
+      enRouteLoggedRef.current = true;
+      void logCaseEvent(caseId, "en_route", actorEmail());
+    }
+
     const success = (pos: GeolocationPosition) => {
       const newPos = { lat: pos.coords.latitude, lng: pos.coords.longitude };
       const prev = lastPositionRef.current;
@@ -361,24 +368,26 @@ function TrackingPageInner() {
     window.open(url, "_blank");
   };
 
-  const handleCloseCase = async () => {
+  const handleMarkArrived = async () => {
+    if (!caseId) {
+      toast.error("No case ID provided");
+      return;
+    }
+    setArrived(true);
+    await logCaseEvent(caseId, "arrived", actorEmail());
+    toast.success("Arrival recorded");
+  };
+
+  const handleCloseCase = async (closure: CaseClosure) => {
     if (!caseId) {
       toast.error("No case ID provided");
       return;
     }
 
     try {
-      setClosingCase(true);
-      const response = await fetch(`http://127.0.0.1:3000/ngo-cases/${caseId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: "completed" }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to close case");
-      }
+      await api.ngoCases.close(caseId, closure);
 
+      setShowClosure(false);
       toast.success("Case marked as completed!");
       setTimeout(() => {
         router.push("/dashboard");
@@ -386,8 +395,7 @@ function TrackingPageInner() {
     } catch (err) {
       console.error("Error closing case:", err);
       toast.error("Failed to close case. Please try again.");
-    } finally {
-      setClosingCase(false);
+      throw err;
     }
   };
 
@@ -542,12 +550,20 @@ function TrackingPageInner() {
 
               <div style={{ marginTop: 18 }}>
                 <Button
-                  onClick={handleCloseCase}
-                  disabled={closingCase || !caseId}
+                  onClick={handleMarkArrived}
+                  disabled={arrived || !caseId}
+                  variant="outline"
+                  style={{ width: "100%", marginBottom: 8 }}
+                >
+                  {arrived ? "Arrival recorded" : "Mark arrived on site"}
+                </Button>
+                <Button
+                  onClick={() => setShowClosure(true)}
+                  disabled={!caseId}
                   variant="destructive"
                   style={{ width: "100%" }}
                 >
-                  {closingCase ? "Closing Case..." : "Close Case"}
+                  Close Case
                 </Button>
               </div>
 
@@ -576,6 +592,8 @@ function TrackingPageInner() {
           </Card>
         </div>
       </div>
+
+      <CaseClosureDialog open={showClosure} onOpenChange={setShowClosure} onSubmit={handleCloseCase} />
     </div>
   );
 }
@@ -0,0 +1,327 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { ArrowLeft, Check, Home, MapPin, Navigation, PackageCheck, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { api } from "@/lib/apiClient";
+import { currentAuthUser } from "@/lib/authUser";
+import { logCaseEvent } from "@/lib/caseTimeline";
+import { formatDuration } from "@/lib/caseSla";
+import { LatLng, formatDistance, toLatLng } from "@/lib/geo";
+import { BASE_MARKER_COLOR, DEFAULT_MAP_CENTER, MapHandle, MapMarker, SEVERITY_MARKER_COLORS } from "@/lib/mapProvider";
+import { openMap } from "@/lib/openMap";
+import { RoutePlan, RouteStop, googleMapsRouteUrl, planRoute } from "@/lib/routePlanning";
+
+const THEME = {
+  primary: "#19C2E6",
+  accent: "#FED801",
+  cta: "#FF5A1F",
+  text: "#fff",
+};
+
+type StopStatus = "pending" | "reached" | "picked_up";
+
+const STATUS_COLORS: Record<Exclude<StopStatus, "pending">, string> = {
+  reached: "#F59E0B",
+  picked_up: "#9CA3AF",
+};
+
+// who is doing the rescue, for the case timeline
+function actorEmail() {
+  try {
+    return currentAuthUser()?.email || localStorage.getItem("email");
+  } catch {
+    return null;
+  }
+}
+
+// stop progress survives a reload of the same run
+const progressKey = (caseIds: string[]) => `route-progress:${[...caseIds].sort().join(",")}`;
+
+function loadProgress(caseIds: string[]): Record<string, StopStatus> {
+  try {
+    return JSON.parse(localStorage.getItem(progressKey(caseIds)) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export default function RouteTrackingPage() {
+  return (
+    <Suspense fallback={<div style={{ padding: 20 }}>Loading route…</div>}>
+      <RouteTrackingInner />
+    </Suspense>
+  );
+}
+
+/**
+ * One pickup run covering several claimed cases.
+ * - Opened from the dashboard with ?cases=<id,id,…>&ngo_lat=&ngo_lng=.
+ * - Orders the stops for the shortest round trip and shows each leg's drive time and ETA.
+ * - Each stop can be marked reached, then picked up; both go on the case timeline.
+ */
+function RouteTrackingInner() {
+  const search = useSearchParams();
+  const caseIds = (search?.get("cases") || "").split(",").filter(Boolean);
+  const caseIdsKey = caseIds.join(",");
+
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const handleRef = useRef<MapHandle | null>(null);
+  const [mapReady, setMapReady] = useState(false);
+  const [origin, setOrigin] = useState<LatLng | null>(() => toLatLng(search?.get("ngo_lat"), search?.get("ngo_lng")));
+  const [stops, setStops] = useState<RouteStop[] | null>(null);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [plan, setPlan] = useState<RoutePlan | null>(null);
+  const [plannedAt, setPlannedAt] = useState(() => Date.now());
+  const [planning, setPlanning] = useState(false);
+  const [progress, setProgress] = useState<Record<string, StopStatus>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  // cases and progress
+  useEffect(() => {
+    if (caseIds.length === 0) {
+      setError("No cases selected. Pick claimed cases on the dashboard and choose Plan route.");
+      return;
+    }
+    setProgress(loadProgress(caseIds));
+    Promise.all(caseIds.map((id) => api.cases.get(id).catch(() => null))).then((records) => {
+      const found: RouteStop[] = [];
+      const missing: string[] = [];
+      records.forEach((c, i) => {
+        const position = c ? toLatLng(c.latitude, c.longitude) : null;
+        if (!c || !position) {
+          missing.push(caseIds[i]);
+          return;
+        }
+        const description = String(c.description || "");
+        found.push({
+          caseId: String(c.case_id || caseIds[i]),
+          title: description ? description.slice(0, 60) : `Case ${caseIds[i]}`,
+          position,
+          severity: c.severity ? String(c.severity) : undefined,
+        });
+      });
+      setStops(found);
+      setSkipped(missing);
+    });
+  }, [caseIdsKey]);
+
+  // without the NGO's location, start from wherever the team is now
+  useEffect(() => {
+    if (origin || !("geolocation" in navigator)) return;
+    navigator.geolocation.getCurrentPosition(
+      (pos) => setOrigin({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+      () => setError("Your NGO location is not set and your current position is unavailable."),
+      { timeout: 8000 }
+    );
+  }, []);
+
+  const replan = async () => {
+    if (!origin || !stops) return;
+    setPlanning(true);
+    try {
+      setPlan(await planRoute(origin, stops));
+      setPlannedAt(Date.now());
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  useEffect(() => {
+    void replan();
+  }, [origin?.lat, origin?.lng, stops]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let cancelled = false;
+    openMap(container, { center: origin || DEFAULT_MAP_CENTER, zoom: 12 }).then(({ handle }) => {
+      if (cancelled) {
+        handle.destroy();
+        return;
+      }
+      handleRef.current = handle;
+      setMapReady(true);
+    });
+    return () => {
+      cancelled = true;
+      handleRef.current?.destroy();
+      handleRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const handle = handleRef.current;
+    if (!handle || !plan || !origin) return;
+    const markers: MapMarker[] = plan.stops.map((s, i) => {
+      const status = progress[s.caseId] || "pending";
+      return {
+        id: s.caseId,
+        position: s.position,
+        label: String(i + 1),
+        title: `${i + 1}. ${s.title}`,
+        color: status === "pending" ? SEVERITY_MARKER_COLORS[String(s.severity)] || "#6B7280" : STATUS_COLORS[status],
+      };
+    });
+    markers.push({ id: "__base__", position: origin, color: BASE_MARKER_COLOR, kind: "base", title: "Start and finish" });
+    handle.setMarkers(markers);
+    handle.setPath(plan.path);
+  }, [mapReady, plan, progress, origin?.lat, origin?.lng]);
+
+  // frame the whole run once per plan
+  useEffect(() => {
+    if (mapReady && plan && origin) handleRef.current?.fitTo([origin, ...plan.stops.map((s) => s.position)]);
+  }, [mapReady, plan]);
+
+  const setStopStatus = async (caseId: string, status: Exclude<StopStatus, "pending">) => {
+    const next = { ...progress, [caseId]: status };
+    setProgress(next);
+    try {
+      localStorage.setItem(progressKey(caseIds), JSON.stringify(next));
+    } catch {}
+    await logCaseEvent(caseId, status === "reached" ? "arrived" : "picked_up", actorEmail());
+    toast.success(status === "reached" ? "Arrival recorded" : "Pickup recorded");
+  };
+
+  const legs = plan?.legs || [];
+  const totalSeconds = legs.reduce((sum, l) => sum + l.durationSeconds, 0);
+  const totalMeters = legs.reduce((sum, l) => sum + l.distanceMeters, 0);
+  const nextStop = plan?.stops.find((s) => progress[s.caseId] !== "picked_up");
+  // clock time at the end of leg i, counted from when the route was planned
+  const etaAfterLeg = (i: number) =>
+    new Date(plannedAt + legs.slice(0, i + 1).reduce((sum, l) => sum + l.durationSeconds, 0) * 1000).toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  const legSummary = (i: number) =>
+    legs[i] ? `${formatDuration(legs[i].durationSeconds * 1000)} · ${formatDistance(legs[i].distanceMeters)} · ETA ${etaAfterLeg(i)}` : "";
+
+  return (
+    <div className="min-h-screen py-8 px-4 sm:px-6 lg:px-8" style={{ background: THEME.primary }}>
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-6 flex items-center justify-between gap-4">
+          <div>
+            <Link href="/dashboard" className="text-sm flex items-center gap-1 mb-2" style={{ color: "#eaf7ff" }}>
+              <ArrowLeft className="w-4 h-4" /> Back to dashboard
+            </Link>
+            <h1 className="text-3xl font-bold" style={{ color: THEME.text }}>
+              Pickup run · {caseIds.length} case{caseIds.length === 1 ? "" : "s"}
+            </h1>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={replan} disabled={planning || !plan} title="Plan the route again">
+              <RefreshCw className={`w-4 h-4 mr-1 ${planning ? "animate-spin" : ""}`} />
+              Re-plan
+            </Button>
+            <Button
+              onClick={() => origin && plan && window.open(googleMapsRouteUrl(origin, plan.stops), "_blank")}
+              disabled={!origin || !plan}
+              style={{ background: THEME.cta, color: "#fff" }}
+            >
+              <Navigation className="w-4 h-4 mr-1" />
+              Open in Google Maps
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Card className="mb-6" style={{ background: "#eaf7ff" }}>
+            <CardContent className="py-6 text-red-600">{error}</CardContent>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2 overflow-hidden">
+            <div className="relative h-[32rem] bg-gray-100">
+              <div ref={containerRef} className="absolute inset-0" />
+            </div>
+          </Card>
+
+          <Card style={{ background: "#eaf7ff" }}>
+            <CardHeader>
+              <h3 className="text-xl font-semibold" style={{ color: THEME.primary }}>Stops</h3>
+              {plan && (
+                <p className="text-sm text-gray-700">
+                  Round trip {formatDistance(totalMeters)} · about {formatDuration(totalSeconds * 1000)} of driving
+                  {plan.estimated && (
+                    <span className="block text-xs text-gray-500 mt-1">
+                      Estimated from straight-line distances; Google directions were not available.
+                    </span>
+                  )}
+                </p>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {!plan ? (
+                <p className="text-sm text-gray-600">{stops && !origin ? "Waiting for a starting point…" : "Planning the route…"}</p>
+              ) : (
+                <>
+                  {plan.stops.map((s, i) => {
+                    const status = progress[s.caseId] || "pending";
+                    return (
+                      <div
+                        key={s.caseId}
+                        className={`rounded-md border bg-white p-3 text-gray-900 ${s === nextStop ? "border-2" : ""}`}
+                        style={s === nextStop ? { borderColor: THEME.cta } : undefined}
+                      >
+                        <div className="flex items-start gap-2">
+                          <span
+                            className="w-6 h-6 shrink-0 rounded-full flex items-center justify-center text-xs font-bold text-white"
+                            style={{ background: status === "pending" ? SEVERITY_MARKER_COLORS[String(s.severity)] || "#6B7280" : STATUS_COLORS[status] }}
+                          >
+                            {i + 1}
+                          </span>
+                          <div className="flex-1 min-w-0">
+                            <Link href={`/dashboard/cases/${encodeURIComponent(s.caseId)}`} className="font-medium text-sm hover:underline">
+                              {s.title}
+                            </Link>
+                            <p className="text-xs text-gray-600">{legSummary(i)}</p>
+                          </div>
+                          {status !== "pending" && (
+                            <Badge variant="outline" className="shrink-0">
+                              {status === "reached" ? "Reached" : "Picked up"}
+                            </Badge>
+                          )}
+                        </div>
+                        {status !== "picked_up" && (
+                          <div className="flex gap-2 mt-2">
+                            <Button size="sm" variant="outline" disabled={status === "reached"} onClick={() => setStopStatus(s.caseId, "reached")}>
+                              <MapPin className="w-4 h-4 mr-1" />
+                              Reached
+                            </Button>
+                            <Button size="sm" onClick={() => setStopStatus(s.caseId, "picked_up")}>
+                              <PackageCheck className="w-4 h-4 mr-1" />
+                              Picked up
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                  <div className="flex items-center gap-2 rounded-md border bg-white p-3 text-sm text-gray-900">
+                    <Home className="w-5 h-5" style={{ color: BASE_MARKER_COLOR }} />
+                    <div>
+                      <p className="font-medium">Back to base</p>
+                      <p className="text-xs text-gray-600">{legSummary(plan.stops.length)}</p>
+                    </div>
+                    {plan.stops.length > 0 && !nextStop && <Check className="w-5 h-5 ml-auto text-green-600" />}
+                  </div>
+                </>
+              )}
+              {skipped.length > 0 && (
+                <p className="text-xs text-gray-600">
+                  Left out (not found or no location): {skipped.join(", ")}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import {
   onAuthStateChanged,
   User,
 } from "firebase/auth";
+import { ApiError, api } from "@/lib/apiClient";
 
 const FIREBASE_CONFIG = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
@@ -22,7 +23,6 @@ const FIREBASE_CONFIG = {
   measurementId: process.env.NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID!,
 };
 
-const BACKEND_API = process.env.NEXT_PUBLIC_BACKEND_API!;
 
 
 const THEME = {
@@ -104,41 +104,20 @@ export default function UserRegisterCleanPage() {
     setSubmitting(true);
     setStatusMsg("Sending profile to backend...");
 
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 15000);
-
     try {
       console.log("Registering profile for user:", user.uid);
-      const idToken = await user.getIdToken();
 
-      const res = await fetch(`${BACKEND_API}/users/profile`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${idToken}`,
-        },
-        body: JSON.stringify({
+      const data = await api.users.saveProfile(
+        {
           phone,
           address,
           name: name || user.displayName || "",
           email: user?.email || email || "",
           uid: user.uid,
           role: "user",
-        }),
-        signal: controller.signal,
-      });
-      console.log("Profile registration response status:", res.status);
-
-      clearTimeout(timeout);
-
-      const data = await res.json().catch(() => ({ message: "no-json", status: res.status }));
-      if (!res.ok) {
-        console.error("Backend returned error:", res.status, data);
-        setStatusMsg(
-          `Failed to save profile (status ${res.status}). Server response: ${JSON.stringify(data)}`
-        );
-        return;
-      }
+        },
+        15000
+      );
 
 
       setStatusMsg("Profile saved: " + (data.message || JSON.stringify(data)));
@@ -155,24 +134,18 @@ export default function UserRegisterCleanPage() {
     } catch (err) {
       console.error("Register profile request failed:", err);
 
-      // Type-safe check without using `any`
-      const isAbortError =
-        err instanceof DOMException
-          ? err.name === "AbortError"
-          : typeof err === "object" &&
-            err !== null &&
-            "name" in err &&
-            (err as { name?: string }).name === "AbortError";
-
-      if (isAbortError) {
-        setStatusMsg("Request timed out. Backend did not respond in time.");
+      if (err instanceof ApiError && err.kind === "http") {
+        setStatusMsg(
+          `Failed to save profile (status ${err.status}). Server response: ${JSON.stringify(err.body)}`
+        );
+      } else if (err instanceof ApiError && err.kind === "timeout") {
+        setStatusMsg(err.message);
       } else {
         setStatusMsg(
           "Network or CORS error: could not reach backend. Make sure sam local is running and FrontendOrigin matches (http://localhost:3001). See backend logs."
         );
       }
     } finally {
-      clearTimeout(timeout);
       setSubmitting(false);
     }
 
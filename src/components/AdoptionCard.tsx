@@ -1,4 +1,4 @@
-import { MapPin, Calendar } from "lucide-react";
+import { MapPin, Calendar, Stethoscope } from "lucide-react";
 import { Card, CardContent, CardFooter, CardHeader } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { Button } from "./ui/button";
@@ -22,6 +22,8 @@ export interface AdoptionAnimal {
   description: string;
   vaccinated: boolean;
   neutered: boolean;
+  // care received since the rescue, e.g. ["2 vet visits", "Medication: Albendazole"]
+  treatment?: string[];
 }
 
 interface AdoptionCardProps {
@@ -63,6 +65,12 @@ export function AdoptionCard({ animal, onAdopt, buttonText }: AdoptionCardProps)
           <MapPin className="w-4 h-4 mr-1" style={{ color: THEME.primary }} />
           <span>{animal.location}</span>
         </div>
+        {animal.treatment && animal.treatment.length > 0 && (
+          <div className="flex items-start text-sm" style={{ color: "#555" }}>
+            <Stethoscope className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" style={{ color: THEME.primary }} />
+            <span>{animal.treatment.join(" · ")}</span>
+          </div>
+        )}
         <div className="flex gap-2">
           {animal.vaccinated && (
             <Badge variant="outline" style={{ background: THEME.accent, color: "#333", borderColor: THEME.primary }}>
@@ -0,0 +1,100 @@
+"use client";
+
+import { ArrowRightLeft, Ban, Download, Loader2, Printer, Route, UserCheck, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { SEVERITY_LEVELS } from "@/lib/severityScoring";
+
+const PRIMARY = "#19C2E6";
+
+export type BulkAction = "claim" | "false_report" | "transfer" | "export" | "print" | "route";
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  onToggleAll: (selectAll: boolean) => void;
+  onClear: () => void;
+  onAction: (action: BulkAction) => void;
+  onSeverity: (severity: string) => void;
+  // a bulk operation is running; done / total for the progress label
+  progress?: { done: number; total: number } | null;
+}
+
+/**
+ * Selection toolbar above the dashboard list.
+ * - Select / clear all visible cases.
+ * - Bulk claim, false report, transfer, severity change, CSV export and dispatch sheet.
+ * - Plan one pickup run through the selected cases this NGO holds.
+ */
+export function BulkActionBar({ selectedCount, visibleCount, onToggleAll, onClear, onAction, onSeverity, progress }: BulkActionBarProps) {
+  const allSelected = visibleCount > 0 && selectedCount >= visibleCount;
+  const disabled = selectedCount === 0 || Boolean(progress);
+
+  return (
+    <div
+      className="sticky top-0 z-10 mb-4 flex flex-wrap items-center gap-2 rounded-md border p-2 text-sm"
+      style={{ background: "#fff", borderColor: PRIMARY, color: "#111827" }}
+    >
+      <label className="flex items-center gap-2 px-1 cursor-pointer">
+        <Checkbox
+          checked={allSelected ? true : selectedCount > 0 ? "indeterminate" : false}
+          onCheckedChange={() => onToggleAll(!allSelected)}
+          disabled={visibleCount === 0 || Boolean(progress)}
+        />
+        {selectedCount > 0 ? `${selectedCount} selected` : "Select all"}
+      </label>
+
+      {selectedCount > 0 && (
+        <>
+          <Button size="sm" variant="ghost" onClick={onClear} disabled={Boolean(progress)}>
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+          <span className="mx-1 h-5 w-px bg-gray-300" />
+          <Button size="sm" variant="outline" onClick={() => onAction("claim")} disabled={disabled}>
+            <UserCheck className="w-4 h-4 mr-1" />
+            Claim
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onAction("false_report")} disabled={disabled}>
+            <Ban className="w-4 h-4 mr-1" />
+            False report
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onAction("transfer")} disabled={disabled}>
+            <ArrowRightLeft className="w-4 h-4 mr-1" />
+            Transfer
+          </Button>
+          <Select value="" onValueChange={onSeverity} disabled={disabled}>
+            <SelectTrigger className="h-8 w-40 text-black">
+              <SelectValue placeholder="Set severity…" />
+            </SelectTrigger>
+            <SelectContent>
+              {[...SEVERITY_LEVELS].reverse().map((s) => (
+                <SelectItem key={s} value={s}>{s}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={() => onAction("route")} disabled={disabled}>
+            <Route className="w-4 h-4 mr-1" />
+            Plan route
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onAction("export")} disabled={disabled}>
+            <Download className="w-4 h-4 mr-1" />
+            Export CSV
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onAction("print")} disabled={disabled}>
+            <Printer className="w-4 h-4 mr-1" />
+            Dispatch sheet
+          </Button>
+        </>
+      )}
+
+      {progress && (
+        <span className="ml-auto flex items-center gap-1 text-gray-600">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {progress.done} / {progress.total}
+        </span>
+      )}
+    </div>
+  );
+}
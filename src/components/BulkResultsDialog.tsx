@@ -0,0 +1,53 @@
+"use client";
+
+import { CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { BulkResult } from "@/lib/bulkActions";
+
+interface BulkResultsDialogProps {
+  // null closes the dialog
+  summary: { action: string; results: BulkResult[] } | null;
+  onClose: () => void;
+}
+
+/**
+ * Per-case outcome of a bulk operation.
+ * - Failures are listed first with the reason; failed cases stay selected for a retry.
+ */
+export function BulkResultsDialog({ summary, onClose }: BulkResultsDialogProps) {
+  const results = summary ? [...summary.results].sort((a, b) => Number(a.ok) - Number(b.ok)) : [];
+  const succeeded = results.filter((r) => r.ok).length;
+
+  return (
+    <Dialog open={Boolean(summary)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{summary?.action}</DialogTitle>
+          <DialogDescription>
+            {succeeded} of {results.length} succeeded
+            {succeeded < results.length && ". Cases that failed are still selected."}
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="max-h-80 overflow-y-auto space-y-2 text-sm">
+          {results.map((r) => (
+            <li key={r.caseId} className="flex items-start gap-2">
+              {r.ok ? (
+                <CheckCircle2 className="w-4 h-4 mt-0.5 flex-shrink-0 text-green-600" />
+              ) : (
+                <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-red-600" />
+              )}
+              <span>
+                <span className="font-medium">{r.title}</span>
+                {r.message && <span className={r.ok ? "block text-gray-600" : "block text-red-700"}>{r.message}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <DialogFooter>
+          <Button onClick={onClose}>OK</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
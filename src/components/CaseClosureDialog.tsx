@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { Camera, Loader2, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { toast } from "sonner";
+import { CaseClosure } from "@/lib/apiClient";
+import { CASE_OUTCOMES, CaseOutcome } from "@/lib/caseOutcomes";
+import { processImage } from "@/lib/imageProcessing";
+import { MAX_REPORT_MEDIA_BYTES, MAX_REPORT_PHOTOS, mediaBytes } from "./ReportMediaPicker";
+
+const PRIMARY = "#19C2E6";
+
+interface CaseClosureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // resolves once the case is closed; a rejection keeps the dialog open
+  onSubmit: (closure: CaseClosure) => Promise<void>;
+}
+
+/**
+ * Dialog for closing a rescue.
+ * - An outcome is required so completed cases can be told apart.
+ * - Notes and after-photos are optional; photos share the report's count and
+ *   size budget since they go base64'd into the same kind of single request.
+ */
+export function CaseClosureDialog({ open, onOpenChange, onSubmit }: CaseClosureDialogProps) {
+  const [outcome, setOutcome] = useState<CaseOutcome | null>(null);
+  const [notes, setNotes] = useState("");
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [processing, setProcessing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const reset = () => {
+    setOutcome(null);
+    setNotes("");
+    setPhotos([]);
+  };
+
+  const handlePhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+    const room = MAX_REPORT_PHOTOS - photos.length;
+    if (files.length > room) toast.error(`You can attach up to ${MAX_REPORT_PHOTOS} after-photos`);
+    if (room <= 0) return;
+    setProcessing(true);
+    try {
+      const processed = await Promise.all(files.slice(0, room).map((f) => processImage(f, { maxDimension: 1280 })));
+      const kept = [...photos];
+      for (const p of processed) {
+        if (mediaBytes([...kept, p.dataUrl].map((dataUrl) => ({ dataUrl }))) > MAX_REPORT_MEDIA_BYTES) {
+          toast.error(`After-photos must be under ${MAX_REPORT_MEDIA_BYTES / (1024 * 1024)}MB together`);
+          break;
+        }
+        kept.push(p.dataUrl);
+      }
+      setPhotos(kept);
+    } catch (err) {
+      console.error("After photo error", err);
+      toast.error("Could not read one of the photos");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!outcome) {
+      toast.error("Choose how the rescue ended");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        outcome,
+        closure_notes: notes.trim() || undefined,
+        after_photos_base64: photos.length > 0 ? photos.map((url) => url.split(",").pop() as string) : undefined,
+      });
+      reset();
+    } catch {
+      // the caller reports the error; keep what was entered
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !submitting && onOpenChange(next)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Close case</DialogTitle>
+          <DialogDescription>Record how this rescue ended before closing it.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Outcome *</Label>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {CASE_OUTCOMES.map((o) => (
+                <button
+                  key={o.value}
+                  type="button"
+                  onClick={() => setOutcome(o.value)}
+                  className="rounded-md border-2 px-3 py-2 text-sm text-left"
+                  style={{
+                    borderColor: outcome === o.value ? PRIMARY : "#e5e7eb",
+                    background: outcome === o.value ? "#eaf7ff" : "#fff",
+                  }}
+                >
+                  {o.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="closure-notes">Notes</Label>
+            <Textarea
+              id="closure-notes"
+              rows={3}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Anything the team should know about how this ended"
+            />
+          </div>
+
+          <div className="flex items-center gap-2 flex-wrap">
+            {photos.map((url, i) => (
+              <div key={i} className="relative">
+                <img src={url} alt={`After photo ${i + 1}`} className="w-16 h-16 rounded object-cover" />
+                <button
+                  type="button"
+                  title="Remove"
+                  onClick={() => setPhotos((prev) => prev.filter((_, j) => j !== i))}
+                  className="absolute -top-1 -right-1 bg-white rounded-full border"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            {photos.length < MAX_REPORT_PHOTOS && (
+              <label className="flex items-center gap-1 text-sm cursor-pointer underline" style={{ color: PRIMARY }}>
+                {processing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+                Add after-photos
+                <input type="file" accept="image/*" multiple className="hidden" onChange={handlePhotos} />
+              </label>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={submitting || processing || !outcome}>
+            {submitting ? "Closing Case..." : "Close Case"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
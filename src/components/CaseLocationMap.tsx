@@ -0,0 +1,62 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ExternalLink } from "lucide-react";
+import { loadGoogleMaps } from "@/lib/googleMaps";
+import { LatLng } from "./LocationPinPicker";
+
+interface CaseLocationMapProps {
+  position: LatLng;
+  title?: string;
+}
+
+/**
+ * Read-only map with a single pin at a case's location.
+ * - Falls back to the coordinates alone when Google Maps can't load.
+ * - Always offers a link out to Google Maps for directions.
+ */
+export function CaseLocationMap({ position, title }: CaseLocationMapProps) {
+  const mapDivRef = useRef<HTMLDivElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadGoogleMaps()
+      .then((g) => {
+        if (cancelled || !mapDivRef.current) return;
+        const map = new g.maps.Map(mapDivRef.current, {
+          center: position,
+          zoom: 16,
+          streetViewControl: false,
+          mapTypeControl: false,
+        });
+        new g.maps.Marker({ position, map, title });
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [position.lat, position.lng]);
+
+  const externalUrl = `https://www.google.com/maps/search/?api=1&query=${position.lat},${position.lng}`;
+
+  return (
+    <div className="space-y-2">
+      {error ? (
+        <p className="text-sm text-gray-600">Map unavailable: {error}</p>
+      ) : (
+        <div ref={mapDivRef} className="w-full h-64 rounded-lg border border-gray-300 bg-gray-100" />
+      )}
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>
+          {position.lat.toFixed(6)}, {position.lng.toFixed(6)}
+        </span>
+        <a href={externalUrl} target="_blank" rel="noreferrer" className="flex items-center gap-1 underline">
+          Open in Google Maps <ExternalLink className="w-3 h-3" />
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Camera, Loader2, Pencil, Plus, Stethoscope } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Badge } from "./ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { toast } from "sonner";
+import { ApiError, api } from "@/lib/apiClient";
+import { CaseNoteRecord } from "@/lib/apiTypes";
+import { NOTE_KINDS, NoteKind, noteKindLabel, summarizeNotes, treatmentHighlights } from "@/lib/caseNotes";
+import { processImage } from "@/lib/imageProcessing";
+
+const PRIMARY = "#19C2E6";
+const CTA = "#FF5A1F";
+
+interface CaseNotesProps {
+  caseId: string;
+  // called after an entry is added or edited (the case timeline may change)
+  onChange?: () => void;
+}
+
+interface NoteDraft {
+  kind: NoteKind;
+  text: string;
+  vet_name: string;
+  medication: string;
+  dosage: string;
+  cost: string;
+  photos: string[];
+}
+
+const EMPTY_DRAFT: NoteDraft = { kind: "note", text: "", vet_name: "", medication: "", dosage: "", cost: "", photos: [] };
+
+function draftFrom(note: CaseNoteRecord): NoteDraft {
+  return {
+    kind: (NOTE_KINDS.some((k) => k.value === note.kind) ? note.kind : "note") as NoteKind,
+    text: note.text || "",
+    vet_name: note.vet_name || "",
+    medication: note.medication || "",
+    dosage: note.dosage || "",
+    cost: note.cost !== undefined && note.cost !== null ? String(note.cost) : "",
+    photos: [],
+  };
+}
+
+function payloadFrom(draft: NoteDraft) {
+  const cost = Number(draft.cost);
+  return {
+    kind: draft.kind,
+    text: draft.text.trim(),
+    vet_name: draft.kind === "vet_visit" ? draft.vet_name.trim() || undefined : undefined,
+    medication: draft.kind === "medication" ? draft.medication.trim() || undefined : undefined,
+    dosage: draft.kind === "medication" ? draft.dosage.trim() || undefined : undefined,
+    cost: draft.cost !== "" && Number.isFinite(cost) ? cost : undefined,
+    photos_base64: draft.photos.length > 0 ? draft.photos.map((url) => url.split(",").pop()) : undefined,
+  };
+}
+
+function formatTime(value?: string) {
+  if (!value) return "";
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? value : d.toLocaleString();
+}
+
+/**
+ * Internal notes and treatment log for one case.
+ * - Only the team of the NGO holding the case can see it; others get a short notice.
+ * - Entries can be plain notes, vet visits, medication or treatments, with cost and photos.
+ * - A summary of visits, medication and spend sits above the log.
+ */
+export function CaseNotes({ caseId, onChange }: CaseNotesProps) {
+  const [notes, setNotes] = useState<CaseNoteRecord[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [state, setState] = useState<"loading" | "ready" | "forbidden" | "error">("loading");
+  const [draft, setDraft] = useState<NoteDraft | null>(null);
+  // note being edited, null while adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [processing, setProcessing] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const list = await api.notes.list(caseId);
+      list.sort((a, b) => String(b.created_at || "").localeCompare(String(a.created_at || "")));
+      setNotes(list);
+      setState("ready");
+
+      const keys = list.flatMap((n) => (Array.isArray(n.photo_keys) ? n.photo_keys.map(String) : []));
+      const urls = await Promise.all(keys.map((key) => api.presign.s3Key(key).catch(() => undefined)));
+      setPhotoUrls(Object.fromEntries(keys.map((key, i) => [key, urls[i] || ""])));
+    } catch (err) {
+      if (err instanceof ApiError && (err.status === 403 || err.status === 401)) {
+        setState("forbidden");
+      } else {
+        console.error("Load case notes error", err);
+        setState("error");
+      }
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handlePhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+    setProcessing(true);
+    try {
+      const processed = await Promise.all(files.map((f) => processImage(f, { maxDimension: 1280 })));
+      setDraft((prev) => (prev ? { ...prev, photos: [...prev.photos, ...processed.map((p) => p.dataUrl)] } : prev));
+    } catch (err) {
+      console.error("Note photo error", err);
+      toast.error("Could not read one of the photos");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.text.trim()) {
+      toast.error("Write what was done");
+      return;
+    }
+    if (draft.kind === "medication" && !draft.medication.trim()) {
+      toast.error("Enter the medication name");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await api.notes.update(caseId, editingId, payloadFrom(draft));
+        toast.success("Entry updated");
+      } else {
+        await api.notes.add(caseId, payloadFrom(draft));
+        toast.success("Entry added");
+      }
+      setDraft(null);
+      setEditingId(null);
+      await load();
+      onChange?.();
+    } catch (err) {
+      console.error("Save case note error", err);
+      toast.error(
+        err instanceof ApiError && err.status === 403
+          ? "Only the NGO handling this case can edit its log"
+          : `Failed to save entry: ${(err as Error).message}`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (state === "loading") return <p className="text-sm text-gray-600">Loading notes…</p>;
+  if (state === "forbidden") {
+    return <p className="text-sm text-gray-600">Notes and treatment records are visible to the NGO handling this case.</p>;
+  }
+  if (state === "error") {
+    return (
+      <p className="text-sm text-red-600">
+        Could not load notes.{" "}
+        <button type="button" className="underline" onClick={load}>Retry</button>
+      </p>
+    );
+  }
+
+  const highlights = treatmentHighlights(summarizeNotes(notes), { includeCost: true });
+
+  return (
+    <div className="space-y-4">
+      {highlights.length > 0 && (
+        <div className="rounded-md p-3 text-sm flex items-start gap-2" style={{ background: "#d6f1fb" }}>
+          <Stethoscope className="w-4 h-4 mt-0.5 flex-shrink-0" style={{ color: PRIMARY }} />
+          <span>{highlights.join(" · ")}</span>
+        </div>
+      )}
+
+      {draft ? (
+        <div className="space-y-3 rounded-md border border-gray-300 p-3 bg-white">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Type</Label>
+              <Select value={draft.kind} onValueChange={(v) => setDraft({ ...draft, kind: v as NoteKind })}>
+                <SelectTrigger className="text-black">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NOTE_KINDS.map((k) => (
+                    <SelectItem key={k.value} value={k.value}>{k.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {draft.kind !== "note" && (
+              <div>
+                <Label htmlFor="note-cost">Cost (₹)</Label>
+                <Input
+                  id="note-cost"
+                  type="number"
+                  min={0}
+                  value={draft.cost}
+                  onChange={(e) => setDraft({ ...draft, cost: e.target.value })}
+                  className="text-black"
+                />
+              </div>
+            )}
+          </div>
+
+          {draft.kind === "vet_visit" && (
+            <div>
+              <Label htmlFor="note-vet">Vet / clinic</Label>
+              <Input id="note-vet" value={draft.vet_name} onChange={(e) => setDraft({ ...draft, vet_name: e.target.value })} className="text-black" />
+            </div>
+          )}
+          {draft.kind === "medication" && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="note-med">Medication</Label>
+                <Input id="note-med" value={draft.medication} onChange={(e) => setDraft({ ...draft, medication: e.target.value })} className="text-black" />
+              </div>
+              <div>
+                <Label htmlFor="note-dose">Dosage</Label>
+                <Input id="note-dose" value={draft.dosage} onChange={(e) => setDraft({ ...draft, dosage: e.target.value })} className="text-black" />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="note-text">Details</Label>
+            <Textarea
+              id="note-text"
+              rows={3}
+              value={draft.text}
+              onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+              placeholder="What was observed or done"
+              className="text-black"
+            />
+          </div>
+
+          {!editingId && (
+            <div className="flex items-center gap-2 flex-wrap">
+              {draft.photos.map((url, i) => (
+                <img key={i} src={url} alt={`Attachment ${i + 1}`} className="w-14 h-14 rounded object-cover" />
+              ))}
+              <label className="flex items-center gap-1 text-sm cursor-pointer underline" style={{ color: PRIMARY }}>
+                {processing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+                Add photos
+                <input type="file" accept="image/*" multiple className="hidden" onChange={handlePhotos} />
+              </label>
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => { setDraft(null); setEditingId(null); }} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || processing} style={{ background: CTA, color: "#fff" }}>
+              {saving ? "Saving…" : editingId ? "Save changes" : "Add entry"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" onClick={() => { setDraft({ ...EMPTY_DRAFT }); setEditingId(null); }}>
+          <Plus className="w-4 h-4 mr-1" /> Add note or treatment
+        </Button>
+      )}
+
+      {notes.length === 0 ? (
+        <p className="text-sm text-gray-600">Nothing recorded yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {notes.map((note) => (
+            <li key={String(note.note_id)} className="rounded-md border border-gray-200 bg-white p-3 text-sm">
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Badge variant="outline">{noteKindLabel(note.kind)}</Badge>
+                  {note.cost !== undefined && Number(note.cost) > 0 && (
+                    <span className="text-gray-600">₹{Number(note.cost).toLocaleString("en-IN")}</span>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  title="Edit"
+                  className="text-gray-500 hover:text-gray-800"
+                  onClick={() => { setDraft(draftFrom(note)); setEditingId(String(note.note_id)); }}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              </div>
+              {note.vet_name && <p className="mt-1 text-gray-700">Vet: {note.vet_name}</p>}
+              {note.medication && (
+                <p className="mt-1 text-gray-700">
+                  {note.medication}
+                  {note.dosage && ` — ${note.dosage}`}
+                </p>
+              )}
+              {note.text && <p className="mt-1 text-gray-800 whitespace-pre-line">{note.text}</p>}
+              {Array.isArray(note.photo_keys) && note.photo_keys.length > 0 && (
+                <div className="flex gap-2 mt-2">
+                  {note.photo_keys.map((key) =>
+                    photoUrls[String(key)] ? (
+                      <a key={String(key)} href={photoUrls[String(key)]} target="_blank" rel="noreferrer">
+                        <img src={photoUrls[String(key)]} alt="Attachment" className="w-16 h-16 rounded object-cover" />
+                      </a>
+                    ) : null
+                  )}
+                </div>
+              )}
+              <p className="mt-2 text-xs text-gray-500">
+                {note.author_name || note.author_email || "Unknown"} · {formatTime(note.created_at)}
+                {note.updated_at && ` · edited ${formatTime(note.updated_at)}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
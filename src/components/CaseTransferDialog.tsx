@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { toast } from "sonner";
+import { api } from "@/lib/apiClient";
+import { TransferTarget, rankTransferTargets } from "@/lib/caseTransfers";
+
+const PRIMARY = "#19C2E6";
+const CTA = "#FF5A1F";
+
+interface CaseTransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  caseTitle: string;
+  // case location, used to rank NGOs by distance
+  position: { lat: number; lng: number } | null;
+  // the current holder, never offered as a target
+  holderEmail: string | null;
+  // resolves once the offer is made; a rejection keeps the dialog open
+  onSubmit: (toEmail: string, reason: string) => Promise<void>;
+}
+
+/**
+ * Dialog for offering a held case to another NGO.
+ * - NGOs covering the case location come first, then the nearest ones.
+ * - A reason is required so the receiving NGO knows what it is taking on.
+ */
+export function CaseTransferDialog({ open, onOpenChange, caseTitle, position, holderEmail, onSubmit }: CaseTransferDialogProps) {
+  const [targets, setTargets] = useState<TransferTarget[] | null>(null);
+  const [toEmail, setToEmail] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setTargets(null);
+    setToEmail(null);
+    setReason("");
+    api.ngos
+      .list()
+      .then((ngos) => setTargets(rankTransferTargets(ngos, position, [holderEmail || undefined])))
+      .catch((err) => {
+        console.error("Load NGOs error", err);
+        toast.error("Could not load the list of NGOs");
+        setTargets([]);
+      });
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!toEmail) {
+      toast.error("Choose an NGO to hand the case to");
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error("Say why the case is being transferred");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await onSubmit(toEmail, reason.trim());
+    } catch {
+      // the caller reports the error; keep what was entered
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !submitting && onOpenChange(next)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Transfer case</DialogTitle>
+          <DialogDescription>
+            Offer &quot;{caseTitle}&quot; to another NGO. You keep the case until they accept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Hand over to *</Label>
+            {targets === null ? (
+              <p className="flex items-center gap-2 text-sm text-gray-600 mt-2">
+                <Loader2 className="w-4 h-4 animate-spin" /> Loading NGOs…
+              </p>
+            ) : targets.length === 0 ? (
+              <p className="text-sm text-gray-600 mt-2">No other NGOs are registered.</p>
+            ) : (
+              <div className="space-y-2 mt-2 max-h-64 overflow-y-auto">
+                {targets.map(({ ngo, distanceKm, inServiceArea }) => (
+                  <button
+                    key={String(ngo.ngo_id || ngo.email)}
+                    type="button"
+                    onClick={() => setToEmail(String(ngo.email))}
+                    className="w-full rounded-md border-2 px-3 py-2 text-sm text-left"
+                    style={{
+                      borderColor: toEmail === ngo.email ? PRIMARY : "#e5e7eb",
+                      background: toEmail === ngo.email ? "#eaf7ff" : "#fff",
+                    }}
+                  >
+                    <span className="font-medium">{ngo.name || ngo.email}</span>
+                    <span className="block text-xs text-gray-600">
+                      {distanceKm !== undefined ? `${distanceKm.toFixed(1)} km away` : "Location unknown"}
+                      {distanceKm !== undefined && !inServiceArea && " · outside their service area"}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="transfer-reason">Reason *</Label>
+            <Textarea
+              id="transfer-reason"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. no ambulance free, needs an orthopaedic vet"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || !toEmail || !reason.trim()}
+            style={{ background: CTA, color: "#fff" }}
+          >
+            {submitting ? "Sending…" : "Offer case"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
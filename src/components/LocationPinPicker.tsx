@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Loader2, MapPin } from "lucide-react";
+import { loadGoogleMaps } from "@/lib/googleMaps";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+interface LocationPinPickerProps {
+  value: LatLng | null;
+  // address is the reverse-geocoded label for the new position, when available
+  onChange: (coords: LatLng, address?: string) => void;
+}
+
+// Centre of India, used before any location is known
+const DEFAULT_CENTER: LatLng = { lat: 20.5937, lng: 78.9629 };
+
+/**
+ * Map with a draggable pin for choosing an exact report location.
+ * - Drag the pin or click the map to move it.
+ * - Each move is reverse geocoded and reported through onChange.
+ * - External value changes (text search, GPS) re-centre the map on the pin.
+ */
+export function LocationPinPicker({ value, onChange }: LocationPinPickerProps) {
+  const mapDivRef = useRef<HTMLDivElement | null>(null);
+  const mapRef = useRef<google.maps.Map | null>(null);
+  const markerRef = useRef<google.maps.Marker | null>(null);
+  const geocoderRef = useRef<google.maps.Geocoder | null>(null);
+  const onChangeRef = useRef(onChange);
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [address, setAddress] = useState<string | null>(null);
+  const [resolving, setResolving] = useState(false);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  // Create the map once the script has loaded
+  useEffect(() => {
+    let cancelled = false;
+    loadGoogleMaps()
+      .then((g) => {
+        if (cancelled || !mapDivRef.current) return;
+        const start = value || DEFAULT_CENTER;
+        const map = new g.maps.Map(mapDivRef.current, {
+          center: start,
+          zoom: value ? 17 : 5,
+          streetViewControl: false,
+          mapTypeControl: false,
+          fullscreenControl: false,
+        });
+        const marker = new g.maps.Marker({
+          position: start,
+          map,
+          draggable: true,
+          visible: Boolean(value),
+          title: "Drag to the exact spot",
+        });
+        geocoderRef.current = new g.maps.Geocoder();
+
+        const moveTo = (latLng: google.maps.LatLng | null | undefined) => {
+          if (!latLng) return;
+          const coords = { lat: latLng.lat(), lng: latLng.lng() };
+          marker.setPosition(coords);
+          marker.setVisible(true);
+          setResolving(true);
+          geocoderRef.current!.geocode({ location: coords }, (results, status) => {
+            setResolving(false);
+            const label = status === "OK" && results && results[0] ? results[0].formatted_address : undefined;
+            setAddress(label || null);
+            onChangeRef.current(coords, label);
+          });
+        };
+
+        marker.addListener("dragend", (e: google.maps.MapMouseEvent) => moveTo(e.latLng));
+        map.addListener("click", (e: google.maps.MapMouseEvent) => moveTo(e.latLng));
+
+        mapRef.current = map;
+        markerRef.current = marker;
+        setReady(true);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Follow coordinates set from outside the map
+  useEffect(() => {
+    if (!ready || !value || !mapRef.current || !markerRef.current) return;
+    const current = markerRef.current.getPosition();
+    if (current && Math.abs(current.lat() - value.lat) < 1e-7 && Math.abs(current.lng() - value.lng) < 1e-7 && markerRef.current.getVisible()) {
+      return;
+    }
+    markerRef.current.setPosition(value);
+    markerRef.current.setVisible(true);
+    mapRef.current.panTo(value);
+    if ((mapRef.current.getZoom() || 0) < 15) mapRef.current.setZoom(17);
+    setAddress(null);
+  }, [ready, value]);
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div ref={mapDivRef} className="w-full h-72 rounded-lg border border-gray-300 bg-gray-100" />
+      <div className="flex items-start gap-2 text-sm text-gray-700">
+        {resolving ? (
+          <Loader2 className="w-4 h-4 mt-0.5 animate-spin flex-shrink-0" />
+        ) : (
+          <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        )}
+        <div>
+          {value ? (
+            <>
+              {address && <p className="text-black">{address}</p>}
+              <p className="text-xs text-gray-500">
+                {value.lat.toFixed(6)}, {value.lng.toFixed(6)}
+              </p>
+            </>
+          ) : (
+            <p>Tap the map or drag the pin to the exact spot where the animal is.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
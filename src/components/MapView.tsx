@@ -1,73 +1,271 @@
-import { MapPin } from "lucide-react";
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { List, Maximize2, X, ZoomIn } from "lucide-react";
 import { RescueCase } from "./RescueCard";
+import {
+  AREA_COLOR,
+  BASE_MARKER_COLOR,
+  DEFAULT_MAP_CENTER,
+  HeatPoint,
+  LatLng,
+  MapHandle,
+  MapMarker,
+  SEVERITY_MARKER_COLORS,
+} from "@/lib/mapProvider";
+import { openMap } from "@/lib/openMap";
+import { Cluster, clusterPoints } from "@/lib/mapClustering";
+import { ServiceArea, areaOutline, areaRelation } from "@/lib/serviceArea";
+
+const BASE_ID = "__base__";
+const INITIAL_ZOOM = 12;
 
 interface MapViewProps {
   rescues: RescueCase[];
+  // the NGO's own location, drawn as a separate marker
+  ngoLocation?: LatLng | null;
+  // where a popup's "Open case" link goes
+  caseHref?: (id: string) => string;
+  // reports for the heatmap layer; empty or missing hides it
+  heatmap?: HeatPoint[] | null;
+  // "Show in list" on a cluster popup
+  onShowInList?: (caseIds: string[]) => void;
+  // the NGO's service area, drawn as an overlay
+  serviceArea?: ServiceArea | null;
 }
 
-export function MapView({ rescues }: MapViewProps) {
-  // This is a placeholder map component
-  // In production, you would integrate with Leaflet or Mapbox
-  
-  return (
-    <div className="w-full h-96 bg-secondary rounded-lg border border-border overflow-hidden relative">
-      {/* Placeholder map background */}
-      <div className="absolute inset-0 bg-gradient-to-br from-blue-50 to-green-50">
-        <div className="absolute inset-0 opacity-10" style={{
-          backgroundImage: `repeating-linear-gradient(0deg, #ddd, #ddd 1px, transparent 1px, transparent 20px),
-                           repeating-linear-gradient(90deg, #ddd, #ddd 1px, transparent 1px, transparent 20px)`
-        }} />
-      </div>
+const hasPosition = (r: RescueCase) =>
+  r.latitude !== undefined && r.longitude !== undefined && Number.isFinite(r.latitude) && Number.isFinite(r.longitude);
 
-      {/* Map markers */}
-      <div className="relative w-full h-full p-8">
-        {rescues.slice(0, 5).map((rescue, index) => (
-          <div
-            key={rescue.id}
-            className="absolute group cursor-pointer"
-            style={{
-              left: `${20 + index * 15}%`,
-              top: `${30 + (index % 3) * 20}%`,
-            }}
-          >
-            <div className="relative">
-              <div className="w-10 h-10 bg-red-500 rounded-full flex items-center justify-center shadow-lg transform hover:scale-110 transition-transform">
-                <MapPin className="w-6 h-6 text-white" fill="white" />
-              </div>
-              <div className="absolute top-12 left-1/2 transform -translate-x-1/2 hidden group-hover:block z-10">
-                <div className="bg-white rounded-lg shadow-xl p-3 w-48 border border-border">
-                  <p className="font-semibold text-sm">{rescue.title}</p>
-                  <p className="text-xs text-muted-foreground mt-1">
-                    {rescue.location}
-                  </p>
-                  <p className="text-xs text-primary mt-1">
-                    {rescue.severity} • {rescue.status}
-                  </p>
-                </div>
-              </div>
-            </div>
-          </div>
-        ))}
-      </div>
+/**
+ * Dashboard map of cases at their reported coordinates.
+ * - Draws through the map provider interface: Google Maps, or the offline map
+ *   when no key is configured or Google fails to load.
+ * - Clicking a pin opens a popup with a link to the case; the NGO base is shown too.
+ * - Nearby pins are grouped into clusters sized by severity (see mapClustering);
+ *   a cluster popup can zoom in or hand its cases to the list view.
+ * - Optional heatmap layer of reports, and the NGO's service area as an overlay.
+ */
+export function MapView({
+  rescues,
+  ngoLocation,
+  caseHref = (id) => `/dashboard/cases/${encodeURIComponent(id)}`,
+  heatmap,
+  onShowInList,
+  serviceArea,
+}: MapViewProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const handleRef = useRef<MapHandle | null>(null);
+  // fit the view once when the first markers arrive, not on every refresh
+  const fittedRef = useRef(false);
+  const [provider, setProvider] = useState<"google" | "offline" | null>(null);
+  const [fallbackReason, setFallbackReason] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedCluster, setSelectedCluster] = useState<Cluster | null>(null);
+  const [zoom, setZoom] = useState(INITIAL_ZOOM);
+
+  const plotted = rescues.filter(hasPosition);
+  const selected = plotted.find((r) => r.id === selectedId) || null;
+  const clusters = clusterPoints(
+    plotted.map((r) => ({ id: r.id, position: { lat: r.latitude as number, lng: r.longitude as number }, severity: r.severity })),
+    zoom
+  );
+  // read from the marker click handler, which is bound once when the map is created
+  const clustersRef = useRef<Cluster[]>([]);
+  clustersRef.current = clusters;
+
+  const handleMarkerClick = (id: string) => {
+    const cluster = clustersRef.current.find((c) => c.id === id && c.memberIds.length > 1);
+    setSelectedCluster(cluster || null);
+    setSelectedId(cluster || id === BASE_ID ? null : id);
+  };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let cancelled = false;
+    const options = {
+      center: ngoLocation || DEFAULT_MAP_CENTER,
+      zoom: INITIAL_ZOOM,
+      onMarkerClick: handleMarkerClick,
+      onViewChange: setZoom,
+    };
+
+    openMap(container, options).then(({ handle, provider: name, fallbackReason: reason }) => {
+      if (cancelled) {
+        handle.destroy();
+        return;
+      }
+      handleRef.current = handle;
+      setFallbackReason(reason);
+      setProvider(name);
+    });
+
+    return () => {
+      cancelled = true;
+      handleRef.current?.destroy();
+      handleRef.current = null;
+      fittedRef.current = false;
+    };
+  }, []);
+
+  const points = (): LatLng[] => [
+    ...plotted.map((r) => ({ lat: r.latitude as number, lng: r.longitude as number })),
+    ...(ngoLocation ? [ngoLocation] : []),
+  ];
+
+  useEffect(() => {
+    const handle = handleRef.current;
+    if (!handle) return;
+    const markers: MapMarker[] = clusters.map((c) => {
+      const color = SEVERITY_MARKER_COLORS[String(c.severity)] || "#6B7280";
+      if (c.memberIds.length > 1) {
+        return { id: c.id, position: c.position, color, kind: "cluster", count: c.memberIds.length, weight: c.weight, title: `${c.memberIds.length} cases` };
+      }
+      const r = plotted.find((p) => p.id === c.id) as RescueCase;
+      return { id: r.id, position: c.position, color, title: `${r.title} (${r.severity})` };
+    });
+    if (ngoLocation) {
+      markers.push({ id: BASE_ID, position: ngoLocation, color: BASE_MARKER_COLOR, title: "Your NGO", kind: "base" });
+    }
+    handle.setMarkers(markers);
+    if (!fittedRef.current && markers.length > 0) {
+      handle.fitTo(points());
+      fittedRef.current = true;
+    }
+  }, [provider, rescues, zoom, ngoLocation?.lat, ngoLocation?.lng]);
+
+  useEffect(() => {
+    handleRef.current?.setHeatmap(heatmap || []);
+  }, [provider, heatmap]);
+
+  useEffect(() => {
+    handleRef.current?.setArea(serviceArea ? areaOutline(serviceArea) : null);
+  }, [provider, serviceArea]);
 
-      {/* Map controls placeholder */}
-      <div className="absolute top-4 right-4 bg-white rounded-lg shadow-md p-2 space-y-2">
-        <button className="w-8 h-8 flex items-center justify-center hover:bg-secondary rounded">
+  const counts = Object.keys(SEVERITY_MARKER_COLORS).map((severity) => ({
+    severity,
+    count: plotted.filter((r) => r.severity === severity).length,
+  }));
+  const unplotted = rescues.length - plotted.length;
+  const outsideArea = serviceArea
+    ? plotted.filter((r) => areaRelation(serviceArea, { lat: r.latitude as number, lng: r.longitude as number }) !== "inside").length
+    : 0;
+
+  return (
+    <div className="w-full h-[32rem] rounded-lg border border-gray-300 overflow-hidden relative bg-gray-100">
+      <div ref={containerRef} className="absolute inset-0" />
+
+      {/* Zoom / fit */}
+      <div className="absolute top-4 right-4 bg-white rounded-lg shadow-md p-1 flex flex-col gap-1 text-gray-800">
+        <button type="button" title="Zoom in" onClick={() => handleRef.current?.zoomIn()} className="w-8 h-8 flex items-center justify-center hover:bg-gray-100 rounded">
           +
         </button>
-        <button className="w-8 h-8 flex items-center justify-center hover:bg-secondary rounded">
+        <button type="button" title="Zoom out" onClick={() => handleRef.current?.zoomOut()} className="w-8 h-8 flex items-center justify-center hover:bg-gray-100 rounded">
           −
         </button>
+        <button type="button" title="Show all cases" onClick={() => handleRef.current?.fitTo(points())} className="w-8 h-8 flex items-center justify-center hover:bg-gray-100 rounded">
+          <Maximize2 className="w-4 h-4" />
+        </button>
       </div>
 
-      {/* Legend */}
-      <div className="absolute bottom-4 left-4 bg-white rounded-lg shadow-md p-3">
-        <p className="text-xs font-semibold mb-2">Active Rescues</p>
-        <div className="flex items-center text-xs text-muted-foreground">
-          <div className="w-3 h-3 bg-red-500 rounded-full mr-2"></div>
-          <span>{rescues.length} cases</span>
+      {/* Popup for the clicked case */}
+      {selected && (
+        <div className="absolute top-4 left-4 w-64 bg-white rounded-lg shadow-xl p-3 border border-gray-200 text-gray-900">
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-semibold text-sm">{selected.title}</p>
+            <button type="button" title="Close" onClick={() => setSelectedId(null)} className="text-gray-500 hover:text-gray-800">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-xs text-gray-600 mt-1">{selected.location}</p>
+          <p className="text-xs mt-1">
+            <span style={{ color: SEVERITY_MARKER_COLORS[selected.severity] }}>{selected.severity}</span> · {selected.status}
+            {selected.claimedBy && ` · held by ${selected.claimedByYou ? "you" : selected.claimedBy}`}
+          </p>
+          <Link href={caseHref(selected.id)} className="inline-block mt-2 text-sm font-medium underline" style={{ color: "#FF5A1F" }}>
+            Open case
+          </Link>
+        </div>
+      )}
+
+      {/* Popup for a clicked cluster */}
+      {selectedCluster && (
+        <div className="absolute top-4 left-4 w-64 bg-white rounded-lg shadow-xl p-3 border border-gray-200 text-gray-900">
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-semibold text-sm">{selectedCluster.memberIds.length} cases here</p>
+            <button type="button" title="Close" onClick={() => setSelectedCluster(null)} className="text-gray-500 hover:text-gray-800">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="mt-1 space-y-0.5 text-xs">
+            {Object.keys(SEVERITY_MARKER_COLORS)
+              .filter((severity) => selectedCluster.counts[severity])
+              .map((severity) => (
+                <div key={severity} className="flex items-center">
+                  <span className="w-2.5 h-2.5 rounded-full mr-2" style={{ background: SEVERITY_MARKER_COLORS[severity] }} />
+                  {severity}: {selectedCluster.counts[severity]}
+                </div>
+              ))}
+          </div>
+          <div className="flex gap-2 mt-2">
+            <button
+              type="button"
+              onClick={() => {
+                const members = plotted.filter((r) => selectedCluster.memberIds.includes(r.id));
+                handleRef.current?.fitTo(members.map((r) => ({ lat: r.latitude as number, lng: r.longitude as number })));
+                setSelectedCluster(null);
+              }}
+              className="flex items-center gap-1 text-sm underline"
+            >
+              <ZoomIn className="w-4 h-4" /> Zoom in
+            </button>
+            {onShowInList && (
+              <button
+                type="button"
+                onClick={() => onShowInList(selectedCluster.memberIds)}
+                className="flex items-center gap-1 text-sm font-medium underline"
+                style={{ color: "#FF5A1F" }}
+              >
+                <List className="w-4 h-4" /> Show in list
+              </button>
+            )}
+          </div>
         </div>
+      )}
+
+      {/* Legend */}
+      <div className="absolute bottom-4 left-4 bg-white rounded-lg shadow-md p-3 text-xs text-gray-700 space-y-1">
+        <p className="font-semibold text-gray-900">{plotted.length} cases on map</p>
+        {counts
+          .filter((c) => c.count > 0)
+          .map((c) => (
+            <div key={c.severity} className="flex items-center">
+              <span className="w-3 h-3 rounded-full mr-2" style={{ background: SEVERITY_MARKER_COLORS[c.severity] }} />
+              {c.severity} ({c.count})
+            </div>
+          ))}
+        {ngoLocation && (
+          <div className="flex items-center">
+            <span className="w-3 h-3 rotate-45 mr-2" style={{ background: BASE_MARKER_COLOR }} />
+            Your NGO
+          </div>
+        )}
+        {serviceArea && (
+          <div className="flex items-center">
+            <span className="w-3 h-3 mr-2 border-2" style={{ borderColor: AREA_COLOR, background: `${AREA_COLOR}33` }} />
+            Your service area{outsideArea > 0 ? ` (${outsideArea} cases outside)` : ""}
+          </div>
+        )}
+        {unplotted > 0 && <p className="text-gray-500">{unplotted} without a location</p>}
+        {heatmap && heatmap.length > 0 && <p className="text-gray-500">Heatmap: {heatmap.length} reports</p>}
+        {provider === "offline" && (
+          <p className="text-gray-500" title={fallbackReason || undefined}>
+            Offline map{fallbackReason ? " (Google Maps unavailable)" : ""}
+          </p>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
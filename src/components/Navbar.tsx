@@ -4,7 +4,8 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import { initializeApp, getApps } from "firebase/app";
-import { getAuth, onAuthStateChanged, signOut } from "firebase/auth";
+import { api, isApiConfigured } from "@/lib/apiClient";
+import { signOutUser, watchAuthUser } from "@/lib/authUser";
 
 // Theme colors
 const THEME = {
@@ -20,8 +21,6 @@ export function Navbar() {
   const pathname = usePathname();
   const router = useRouter();
 
-  const BACKEND_API = process.env.NEXT_PUBLIC_BACKEND_API || "";
-
   useEffect(() => {
     if (typeof window === "undefined") return;
 
@@ -43,8 +42,7 @@ export function Navbar() {
     }
 
     try {
-      const auth = getAuth();
-      const unsub = onAuthStateChanged(auth, async (u) => {
+      const unsub = watchAuthUser(async (u) => {
         if (!u) {
           setLoggedIn(false);
           setRole(null);
@@ -66,39 +64,17 @@ export function Navbar() {
         } catch {}
 
         // Fetch role from backend (nivaran-user-table via get_profile)
-        if (BACKEND_API) {
+        if (isApiConfigured()) {
           try {
-            const idToken = await u.getIdToken();
-            const headers: Record<string, string> = {
-              Authorization: `Bearer ${idToken}`,
-            };
-            
-            // In local development, also send X-UID and X-EMAIL headers for easier testing
-            if (BACKEND_API.includes('localhost') || BACKEND_API.includes('127.0.0.1')) {
-              headers['X-UID'] = u.uid;
-              if (u.email) {
-                headers['X-EMAIL'] = u.email;
-              }
-            }
-            
-            const userResp = await fetch(`${BACKEND_API}/users/profile`, {
-              method: "GET",
-              headers,
-            });
-            if (userResp.ok) {
-              const data = await userResp.json().catch(() => ({}));
-              const prof = data.profile || {};
-              const userRole = prof.role || 'user'; // default to 'user' if no role
-              console.log('Fetched role from backend:', userRole);
-              setRole(userRole);
-              // Cache role in localStorage
-              try {
-                localStorage.setItem("userRole", userRole);
-              } catch {}
-              return;
-            } else {
-              console.warn('Failed to fetch profile, status:', userResp.status);
-            }
+            const prof = await api.users.profile();
+            const userRole = prof.role || 'user'; // default to 'user' if no role
+            console.log('Fetched role from backend:', userRole);
+            setRole(userRole);
+            // Cache role in localStorage
+            try {
+              localStorage.setItem("userRole", userRole);
+            } catch {}
+            return;
           } catch (err) {
             console.error('Error fetching profile:', err);
           }
@@ -117,7 +93,7 @@ export function Navbar() {
       setLoggedIn(false);
       setRole(null);
     }
-  }, [BACKEND_API]);
+  }, []);
 
   const navLinks = [
     { name: "Home", path: "/" },
@@ -175,8 +151,7 @@ export function Navbar() {
 
   const handleSignOut = async () => {
     try {
-      const auth = getAuth();
-      await signOut(auth);
+      await signOutUser();
     } catch {
       // ignore
     } finally {
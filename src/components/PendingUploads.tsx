@@ -0,0 +1,185 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { CloudOff, Loader2, RefreshCw, ShieldAlert, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { toast } from "sonner";
+import {
+  QueuedReport,
+  REPORT_QUEUE_EVENT,
+  listQueuedReports,
+  removeQueuedReport,
+  retryQueuedReport,
+  submitQueuedReportForReview,
+} from "@/lib/reportQueue";
+
+const PRIMARY = "#19C2E6";
+
+const statusColors: Record<QueuedReport["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  uploading: "bg-blue-100 text-blue-800 border-blue-200",
+  failed: "bg-red-100 text-red-800 border-red-200",
+  rejected: "bg-gray-100 text-gray-800 border-gray-200",
+};
+
+const statusLabels: Record<QueuedReport["status"], string> = {
+  pending: "Waiting for connection",
+  uploading: "Uploading…",
+  failed: "Failed",
+  rejected: "Rejected by AI",
+};
+
+/**
+ * Lists rescue reports saved offline on this device.
+ * - Pending uploads are retried app-wide by ReportQueueSync; this only lists them.
+ * - Each item can be retried or discarded manually.
+ * - Reports rejected by the AI can be sent for human review instead.
+ * - Renders nothing while the queue is empty.
+ */
+export function PendingUploads() {
+  const [items, setItems] = useState<QueuedReport[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setItems(await listQueuedReports());
+    } catch {
+      setItems([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    window.addEventListener(REPORT_QUEUE_EVENT, reload);
+    return () => window.removeEventListener(REPORT_QUEUE_EVENT, reload);
+  }, [reload]);
+
+  const handleRetry = async (item: QueuedReport) => {
+    setBusyId(item.id);
+    try {
+      const result = await retryQueuedReport(item);
+      if (!result) {
+        toast.info("This report is already being uploaded");
+      } else if (result.ok && result.data.status !== "invalid_image") {
+        toast.success("Saved report uploaded");
+      } else if (result.networkError) {
+        toast.error("Still offline — we'll retry automatically");
+      } else {
+        toast.error("Upload failed");
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReview = async (item: QueuedReport) => {
+    setBusyId(item.id);
+    try {
+      const result = await submitQueuedReportForReview(item);
+      if (!result) {
+        toast.info("This report is already being uploaded");
+      } else if (result.ok && result.data.status !== "invalid_image") {
+        toast.success("Report sent for human review");
+      } else if (result.networkError) {
+        toast.error("Still offline — we'll retry automatically");
+      } else {
+        toast.error("Upload failed");
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (item: QueuedReport) => {
+    if (!window.confirm("Discard this saved report? This cannot be undone.")) return;
+    await removeQueuedReport(item.id);
+    toast.info("Saved report discarded");
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <Card className="mt-6" style={{ borderColor: "#F59E0B" }}>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CloudOff className="w-5 h-5 text-yellow-600" />
+          <h2 className="text-lg font-semibold" style={{ color: PRIMARY }}>
+            Pending uploads ({items.length})
+          </h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          These reports are saved on this device and will be sent automatically
+          when you are back online.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {items.map((item) => {
+          const payload = item.payload;
+          // reports queued before image_base64 was dropped still carry it
+          const images = Array.isArray(payload.images_base64) ? payload.images_base64 : [payload.image_base64];
+          const thumbnail = images[Number(payload.primary_image_index) || 0] || images[0];
+          const image = thumbnail ? `data:image/jpeg;base64,${thumbnail}` : null;
+          const uploading = item.status === "uploading" || busyId === item.id;
+          return (
+            <div
+              key={item.id}
+              className="flex items-center gap-3 rounded-lg border border-gray-200 p-3"
+              style={{ color: "#111827" }}
+            >
+              {image && (
+                <img src={image} alt="Saved report" className="w-14 h-14 rounded object-cover flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{String(payload.location || "Unknown location")}</p>
+                <p className="text-xs text-gray-500">
+                  {String(payload.severity || "")} • saved {new Date(item.createdAt).toLocaleString()}
+                  {item.attempts > 0 ? ` • ${item.attempts} attempt${item.attempts > 1 ? "s" : ""}` : ""}
+                </p>
+                {item.lastError && item.status !== "pending" && (
+                  <p className="text-xs text-red-600 truncate">{item.lastError}</p>
+                )}
+              </div>
+              <Badge className={statusColors[item.status]} variant="outline">
+                {statusLabels[item.status]}
+              </Badge>
+              {item.status === "rejected" && (
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="outline"
+                  disabled={uploading}
+                  onClick={() => handleReview(item)}
+                  title="Submit anyway for human review"
+                >
+                  <ShieldAlert className="w-4 h-4" />
+                </Button>
+              )}
+              <Button
+                type="button"
+                size="icon"
+                variant="outline"
+                disabled={uploading}
+                onClick={() => handleRetry(item)}
+                title="Retry upload"
+              >
+                {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              </Button>
+              <Button
+                type="button"
+                size="icon"
+                variant="outline"
+                disabled={uploading}
+                onClick={() => handleDiscard(item)}
+                title="Discard"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
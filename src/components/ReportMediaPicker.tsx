@@ -0,0 +1,272 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Film, Star, Upload, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Progress } from "./ui/progress";
+import { toast } from "sonner";
+import { processImage } from "@/lib/imageProcessing";
+
+export const MAX_REPORT_PHOTOS = 5;
+export const MAX_VIDEO_BYTES = 3 * 1024 * 1024;
+export const MAX_VIDEO_SECONDS = 30;
+// All media goes base64'd into one JSON POST (and into the offline queue), so
+// keep it well under the ~6MB request limit of API Gateway + Lambda
+export const MAX_REPORT_MEDIA_BYTES = 4 * 1024 * 1024;
+
+export interface ReportMedia {
+  id: string;
+  kind: "image" | "video";
+  name: string;
+  contentType: string;
+  // data: URL once the file has been read, null while still reading
+  dataUrl: string | null;
+  // 0-100 read progress
+  progress: number;
+}
+
+interface ReportMediaPickerProps {
+  items: ReportMedia[];
+  onItemsChange: React.Dispatch<React.SetStateAction<ReportMedia[]>>;
+  primaryId: string | null;
+  onPrimaryChange: (id: string) => void;
+  // called with the EXIF GPS position of a newly added photo, when it has one
+  onImageGps?: (gps: { latitude: number; longitude: number }) => void;
+}
+
+const PRIMARY = "#19C2E6";
+
+// Decoded size of the attached media, from the base64 in each data: URL
+export function mediaBytes(items: { dataUrl: string | null }[]) {
+  return items.reduce((sum, m) => {
+    const base64 = m.dataUrl?.split(",").pop() || "";
+    return sum + Math.floor((base64.length * 3) / 4);
+  }, 0);
+}
+
+const toMb = (bytes: number) => `${Math.round((bytes / (1024 * 1024)) * 10) / 10}MB`;
+
+function newId() {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+function videoDuration(file: File) {
+  return new Promise<number>((resolve) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve(video.duration);
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(NaN);
+    };
+    video.src = url;
+  });
+}
+
+/**
+ * Photo + short video evidence for a rescue report.
+ * - Up to MAX_REPORT_PHOTOS images and one video clip.
+ * - Photos are resized/re-encoded (EXIF stripped) and videos read as-is, each
+ *   with its own progress bar.
+ * - Photos can be reordered and one marked as primary (sent as image_base64).
+ * - Everything together must fit in MAX_REPORT_MEDIA_BYTES.
+ */
+export function ReportMediaPicker({ items, onItemsChange, primaryId, onPrimaryChange, onImageGps }: ReportMediaPickerProps) {
+  const photos = items.filter((m) => m.kind === "image");
+  const video = items.find((m) => m.kind === "video");
+
+  const readFile = (file: File, kind: ReportMedia["kind"]) => {
+    const item: ReportMedia = {
+      id: newId(),
+      kind,
+      name: file.name,
+      contentType: file.type,
+      dataUrl: null,
+      progress: 0,
+    };
+    onItemsChange((prev) => [...prev, item]);
+
+    const update = (patch: Partial<ReportMedia>) =>
+      onItemsChange((prev) => prev.map((m) => (m.id === item.id ? { ...m, ...patch } : m)));
+
+    if (kind === "image") {
+      processImage(file, {}, (progress) => update({ progress }))
+        .then((img) => {
+          update({ dataUrl: img.dataUrl, contentType: img.contentType, progress: 100 });
+          if (img.gps) onImageGps?.(img.gps);
+        })
+        .catch((err) => {
+          // formats the browser cannot decode (e.g. HEIC) would go out with
+          // their EXIF intact, so they are not accepted at all
+          console.warn(`Could not process ${file.name}`, err);
+          toast.error(`${file.name} could not be read. Please attach a JPEG or PNG photo.`);
+          onItemsChange((prev) => prev.filter((m) => m.id !== item.id));
+        });
+      return item;
+    }
+
+    readRaw(file, item.id, update);
+    return item;
+  };
+
+  const readRaw = (file: File, id: string, update: (patch: Partial<ReportMedia>) => void) => {
+    const reader = new FileReader();
+    reader.onprogress = (e) => {
+      if (e.lengthComputable) update({ progress: Math.round((e.loaded / e.total) * 100) });
+    };
+    reader.onload = () => update({ dataUrl: reader.result as string, progress: 100 });
+    reader.onerror = () => {
+      toast.error(`Failed to read ${file.name}`);
+      onItemsChange((prev) => prev.filter((m) => m.id !== id));
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handlePhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    const room = MAX_REPORT_PHOTOS - photos.length;
+    if (files.length > room) {
+      toast.error(`You can attach up to ${MAX_REPORT_PHOTOS} photos`);
+    }
+    files.slice(0, Math.max(room, 0)).forEach((file, i) => {
+      const item = readFile(file, "image");
+      if (!primaryId && i === 0) onPrimaryChange(item.id);
+    });
+  };
+
+  const handleVideo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_VIDEO_BYTES) {
+      toast.error(`Video must be under ${toMb(MAX_VIDEO_BYTES)}`);
+      return;
+    }
+    if (mediaBytes(items.filter((m) => m.kind !== "video")) + file.size > MAX_REPORT_MEDIA_BYTES) {
+      toast.error(`Photos and video together must be under ${toMb(MAX_REPORT_MEDIA_BYTES)}; remove a photo or use a shorter clip`);
+      return;
+    }
+    const duration = await videoDuration(file);
+    if (duration > MAX_VIDEO_SECONDS) {
+      toast.error(`Video must be ${MAX_VIDEO_SECONDS} seconds or shorter`);
+      return;
+    }
+    onItemsChange((prev) => prev.filter((m) => m.kind !== "video"));
+    readFile(file, "video");
+  };
+
+  const remove = (id: string) => {
+    const remaining = items.filter((m) => m.id !== id);
+    onItemsChange(remaining);
+    if (id === primaryId) {
+      const next = remaining.find((m) => m.kind === "image");
+      if (next) onPrimaryChange(next.id);
+    }
+  };
+
+  // Swap a photo with its neighbour among photos (video keeps its slot)
+  const move = (id: string, dir: -1 | 1) => {
+    const order = photos.map((m) => m.id);
+    const idx = order.indexOf(id);
+    const target = idx + dir;
+    if (idx < 0 || target < 0 || target >= order.length) return;
+    [order[idx], order[target]] = [order[target], order[idx]];
+    const byId = new Map(items.map((m) => [m.id, m]));
+    onItemsChange([
+      ...order.map((oid) => byId.get(oid)!),
+      ...items.filter((m) => m.kind !== "image"),
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {photos.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {photos.map((m, i) => (
+            <div
+              key={m.id}
+              className="relative rounded-lg border-2 overflow-hidden bg-white"
+              style={{ borderColor: m.id === primaryId ? "#FED801" : "#e5e7eb" }}
+            >
+              {m.dataUrl ? (
+                <img src={m.dataUrl} alt={m.name} className="w-full h-32 object-cover" />
+              ) : (
+                <div className="h-32 flex items-center justify-center p-3">
+                  <Progress value={m.progress} />
+                </div>
+              )}
+              {m.id === primaryId && (
+                <span className="absolute top-1 left-1 text-xs font-semibold px-2 py-0.5 rounded bg-yellow-300 text-black">
+                  Primary
+                </span>
+              )}
+              <div className="flex items-center justify-between gap-1 p-1 bg-gray-50">
+                <div className="flex gap-1">
+                  <Button type="button" size="icon" variant="ghost" className="h-7 w-7 text-black" disabled={i === 0} onClick={() => move(m.id, -1)} title="Move earlier">
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button type="button" size="icon" variant="ghost" className="h-7 w-7 text-black" disabled={i === photos.length - 1} onClick={() => move(m.id, 1)} title="Move later">
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex gap-1">
+                  <Button type="button" size="icon" variant="ghost" className="h-7 w-7 text-black" onClick={() => onPrimaryChange(m.id)} title="Use as primary photo">
+                    <Star className="w-4 h-4" fill={m.id === primaryId ? "#FED801" : "none"} />
+                  </Button>
+                  <Button type="button" size="icon" variant="ghost" className="h-7 w-7 text-black" onClick={() => remove(m.id)} title="Remove">
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {video && (
+        <div className="rounded-lg border-2 border-gray-200 overflow-hidden bg-white">
+          {video.dataUrl ? (
+            <video src={video.dataUrl} controls className="w-full max-h-64 bg-black" />
+          ) : (
+            <div className="p-4">
+              <Progress value={video.progress} />
+            </div>
+          )}
+          <div className="flex items-center justify-between p-2 bg-gray-50 text-sm text-black">
+            <span className="truncate">{video.name}</span>
+            <Button type="button" size="icon" variant="ghost" className="h-7 w-7 text-black" onClick={() => remove(video.id)} title="Remove video">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        {photos.length < MAX_REPORT_PHOTOS && (
+          <label className="flex-1 cursor-pointer border-2 border-dashed border-blue-300 rounded-lg p-6 text-center hover:border-yellow-400 transition-colors">
+            <input type="file" accept="image/*" multiple className="hidden" onChange={handlePhotos} />
+            <Upload className="w-10 h-10 mx-auto mb-2" style={{ color: PRIMARY }} />
+            <p className="mb-1">{photos.length ? "Add more photos" : "Click to upload photos"}</p>
+            <p className="text-sm text-blue-400">
+              {photos.length}/{MAX_REPORT_PHOTOS} photos • large photos are compressed automatically
+            </p>
+          </label>
+        )}
+        {!video && (
+          <label className="flex-1 cursor-pointer border-2 border-dashed border-blue-300 rounded-lg p-6 text-center hover:border-yellow-400 transition-colors">
+            <input type="file" accept="video/*" className="hidden" onChange={handleVideo} />
+            <Film className="w-10 h-10 mx-auto mb-2" style={{ color: PRIMARY }} />
+            <p className="mb-1">Add a short video (optional)</p>
+            <p className="text-sm text-blue-400">
+              Up to {MAX_VIDEO_SECONDS}s, {toMb(MAX_VIDEO_BYTES)}
+            </p>
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
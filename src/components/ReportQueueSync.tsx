@@ -0,0 +1,25 @@
+"use client";
+
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { flushReportQueue } from "@/lib/reportQueue";
+
+/**
+ * Uploads reports saved offline, wherever the reporter is in the app.
+ * - Flushes the queue on load and whenever the browser goes back online.
+ * - Renders nothing; PendingUploads on the report page lists what is left.
+ */
+export function ReportQueueSync() {
+  useEffect(() => {
+    const flush = async () => {
+      if (!navigator.onLine) return;
+      const sent = await flushReportQueue();
+      if (sent > 0) toast.success(`${sent} saved report${sent > 1 ? "s" : ""} uploaded`);
+    };
+    flush();
+    window.addEventListener("online", flush);
+    return () => window.removeEventListener("online", flush);
+  }, []);
+
+  return null;
+}
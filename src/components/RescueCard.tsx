@@ -1,7 +1,14 @@
-import { MapPin, Clock, AlertCircle, Navigation, Heart, Check } from "lucide-react";
+import { useState } from "react";
+import Link from "next/link";
+import { MapPin, Clock, AlertCircle, Navigation, Heart, Check, Film, ShieldAlert, X, UserCheck, Undo2, ArrowRightLeft } from "lucide-react";
 import { Card, CardContent, CardFooter, CardHeader } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { injuryLabel } from "@/lib/taxonomy";
+import { outcomeInfo } from "@/lib/caseOutcomes";
+import { SlaState, formatDuration, slaStatus, timeSince } from "@/lib/caseSla";
+import { formatDistance } from "@/lib/geo";
 
 export interface RescueCase {
   id: string;
@@ -9,12 +16,35 @@ export interface RescueCase {
   description: string;
   location: string;
   severity: "Low" | "Medium" | "High" | "Critical";
+  // severity proposed by the report form's scoring, when the report had one
+  suggestedSeverity?: "Low" | "Medium" | "High" | "Critical";
+  severityScore?: number;
   status: string;
   imageUrl?: string;
+  // all evidence photos, primary first (imageUrl is kept for single-image cases)
+  imageUrls?: string[];
+  videoUrl?: string;
   reportedAt: string;
+  // when the holding NGO claimed it
+  claimedAt?: string;
   contactInfo: string;
   latitude?: number;
   longitude?: number;
+  // from the viewing NGO, when both locations are known
+  distanceMeters?: number;
+  species?: string;
+  injuryTypes?: string[];
+  animalCount?: number;
+  // filed by the reporter after the AI rejected the photo, awaiting NGO review
+  unverified?: boolean;
+  overrideReason?: string;
+  // NGO currently holding the case, and whether that is the viewer
+  claimedBy?: string;
+  claimedByYou?: boolean;
+  // how a closed case ended (see caseOutcomes)
+  outcome?: string;
+  // NGO a transfer offer from the viewer is waiting on
+  transferPendingTo?: string;
 }
 
 interface RescueCardProps {
@@ -23,9 +53,23 @@ interface RescueCardProps {
   onTrack?: (id: string) => void;
   onPushForAdoption?: (id: string) => void;
   onMarkAsAdopted?: (id: string) => void;
+  onReview?: (id: string, decision: "confirm" | "dismiss") => void;
+  onRelease?: (id: string) => void;
+  onTransfer?: (id: string) => void;
+  // a claim or release for this card is in flight
+  busy?: boolean;
   showTrackButton?: boolean;
   showAdoptionButton?: boolean;
   adoptionStatus?: string;
+  // arrived through the live feed since the dashboard was opened
+  highlighted?: boolean;
+  // link for the title, e.g. the case detail page
+  detailsHref?: string;
+  // clock for the SLA timers, ticked by the parent so cards stay in sync
+  now?: number;
+  // multi-select for bulk actions; no checkbox without onSelectChange
+  selected?: boolean;
+  onSelectChange?: (id: string, selected: boolean) => void;
 }
 
 /**
@@ -40,9 +84,18 @@ export function RescueCard({
   onTrack, 
   onPushForAdoption, 
   onMarkAsAdopted,
+  onReview,
+  onRelease,
+  onTransfer,
+  busy,
   showTrackButton, 
   showAdoptionButton,
-  adoptionStatus 
+  adoptionStatus,
+  highlighted,
+  detailsHref,
+  now = Date.now(),
+  selected,
+  onSelectChange
 }: RescueCardProps) {
   const severityColors = {
     Low: "bg-green-100 text-green-800 border-green-200",
@@ -63,47 +116,122 @@ export function RescueCard({
   const PRIMARY = "#19C2E6"; // used for icons / accents
   const CTA = "#FF5A1F"; // used for Take Action button
 
+  const slaColors: Record<SlaState, string> = {
+    ok: "bg-green-100 text-green-800 border-green-200",
+    warning: "bg-amber-100 text-amber-900 border-amber-300",
+    overdue: "bg-red-600 text-white border-red-700",
+  };
+
   const statusNormalized = String(rescue.status || "").toLowerCase();
+  const sla = slaStatus(rescue, now);
+  const reportedAgo = timeSince(rescue.reportedAt, now);
+  const claimedAgo = sla?.phase === "resolve" ? timeSince(rescue.claimedAt, now) : null;
 
   // Consider actionable any status other than 'resolved', 'completed', 'closed', or 'in progress'
   const isActionable = !["resolved", "in progress", "completed", "closed"].includes(statusNormalized);
+  const canTransfer = Boolean(onTransfer && rescue.claimedByYou && !rescue.transferPendingTo) &&
+    !["resolved", "completed", "closed"].includes(statusNormalized);
+
+  const gallery = rescue.imageUrls && rescue.imageUrls.length > 0
+    ? rescue.imageUrls
+    : rescue.imageUrl ? [rescue.imageUrl] : [];
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [showVideo, setShowVideo] = useState(false);
+  const activeImage = gallery[Math.min(activeIndex, gallery.length - 1)];
 
   return (
     // Force card background to the light card color and ensure text inside is dark.
     <Card
-      className="overflow-hidden hover:shadow-lg transition-shadow"
+      className={`overflow-hidden hover:shadow-lg transition-shadow ${highlighted ? "ring-4 ring-[#FED801]" : ""} ${
+        sla?.state === "overdue" ? "border-2 border-red-500" : sla?.state === "warning" ? "border-2 border-amber-400" : ""
+      } ${selected ? "outline outline-4 outline-[#19C2E6]" : ""}`}
       style={{ background: "#eaf7ff", color: "#111827" }} // color ensures default text is dark
     >
-      {rescue.imageUrl && (
-        <div className="h-48 overflow-hidden">
-          <img
-            src={rescue.imageUrl}
-            alt={rescue.title}
-            className="w-full h-full object-cover"
-            onError={(e) => {
-              console.error(`Failed to load image: ${rescue.imageUrl}`, e);
-              e.currentTarget.style.display = 'none';
-            }}
-            onLoad={() => {
-              console.log(`Successfully loaded image: ${rescue.imageUrl}`);
-            }}
-          />
+      {(gallery.length > 0 || rescue.videoUrl) && (
+        <div>
+          <div className="h-48 overflow-hidden bg-black">
+            {showVideo && rescue.videoUrl ? (
+              <video src={rescue.videoUrl} controls className="w-full h-full object-contain" />
+            ) : activeImage ? (
+              <img
+                src={activeImage}
+                alt={rescue.title}
+                className="w-full h-full object-cover"
+                onError={(e) => {
+                  console.error(`Failed to load image: ${activeImage}`, e);
+                  e.currentTarget.style.display = 'none';
+                }}
+              />
+            ) : null}
+          </div>
+          {(gallery.length > 1 || rescue.videoUrl) && (
+            <div className="flex gap-1 p-1 overflow-x-auto" style={{ background: "#d6f1fb" }}>
+              {gallery.map((url, i) => (
+                <button
+                  key={url}
+                  type="button"
+                  onClick={() => { setActiveIndex(i); setShowVideo(false); }}
+                  className="flex-shrink-0 w-12 h-12 rounded overflow-hidden border-2"
+                  style={{ borderColor: !showVideo && i === activeIndex ? PRIMARY : "transparent" }}
+                >
+                  <img src={url} alt={`${rescue.title} photo ${i + 1}`} className="w-full h-full object-cover" />
+                </button>
+              ))}
+              {rescue.videoUrl && (
+                <button
+                  type="button"
+                  onClick={() => setShowVideo(true)}
+                  className="flex-shrink-0 w-12 h-12 rounded border-2 flex items-center justify-center bg-black"
+                  style={{ borderColor: showVideo ? PRIMARY : "transparent" }}
+                  title="Play video"
+                >
+                  <Film className="w-5 h-5 text-white" />
+                </button>
+              )}
+            </div>
+          )}
         </div>
       )}
 
       <CardHeader>
         <div className="flex items-start justify-between gap-2">
-          {/* title: explicit dark color */}
-          <h3 className="font-semibold" style={{ color: "#FF5A1F" }}>
-          {rescue.title}
-          </h3>
+          <div className="flex items-start gap-2">
+            {onSelectChange && (
+              <Checkbox
+                checked={Boolean(selected)}
+                onCheckedChange={(checked) => onSelectChange(rescue.id, checked === true)}
+                className="mt-1 bg-white"
+                aria-label={`Select ${rescue.title}`}
+              />
+            )}
+            {/* title: explicit dark color */}
+            <h3 className="font-semibold" style={{ color: "#FF5A1F" }}>
+            {detailsHref ? <Link href={detailsHref} className="hover:underline">{rescue.title}</Link> : rescue.title}
+            </h3>
+          </div>
           <div className="flex gap-2 flex-shrink-0">
+            {highlighted && (
+              <Badge className="bg-yellow-100 text-yellow-900 border-yellow-300" variant="outline">
+                Just in
+              </Badge>
+            )}
             <Badge className={severityColors[rescue.severity]} variant="outline">
               {rescue.severity}
             </Badge>
             <Badge className={statusColors[rescue.status as keyof typeof statusColors] ?? "bg-gray-100 text-gray-800 border-gray-200"} variant="outline">
               {rescue.status}
             </Badge>
+            {outcomeInfo(rescue.outcome) && (
+              <Badge className={outcomeInfo(rescue.outcome)!.className} variant="outline">
+                {outcomeInfo(rescue.outcome)!.label}
+              </Badge>
+            )}
+            {rescue.unverified && (
+              <Badge className="bg-amber-100 text-amber-900 border-amber-300" variant="outline">
+                <ShieldAlert className="w-3 h-3 mr-1" />
+                Unverified
+              </Badge>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -112,22 +240,91 @@ export function RescueCard({
         {/* description: darker muted text */}
         <p className="text-gray-700">{rescue.description}</p>
 
+        {rescue.suggestedSeverity && rescue.suggestedSeverity !== rescue.severity && (
+          <p className="text-xs text-gray-500">
+            Reporter chose {rescue.severity}; scoring suggests {rescue.suggestedSeverity}
+          </p>
+        )}
+
+        {rescue.unverified && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-2 text-sm text-amber-900">
+            AI did not recognise an animal; the reporter asked for human review.
+            {rescue.overrideReason && <span className="block italic">“{rescue.overrideReason}”</span>}
+            {onReview && (
+              <div className="flex gap-2 mt-2">
+                <Button size="sm" onClick={() => onReview(rescue.id, "confirm")} style={{ background: "#10B981", color: "#fff" }}>
+                  <Check className="w-4 h-4 mr-1" />
+                  Confirm
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onReview(rescue.id, "dismiss")}>
+                  <X className="w-4 h-4 mr-1" />
+                  Dismiss
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {(rescue.species || (rescue.injuryTypes && rescue.injuryTypes.length > 0)) && (
+          <div className="flex flex-wrap gap-1">
+            {rescue.species && (
+              <Badge variant="outline" className="bg-white text-gray-800 border-gray-300">
+                {rescue.species}
+                {rescue.animalCount && rescue.animalCount > 1 ? ` ×${rescue.animalCount}` : ""}
+              </Badge>
+            )}
+            {rescue.injuryTypes?.map((t) => (
+              <Badge key={t} variant="outline" className="bg-rose-50 text-rose-800 border-rose-200">
+                {injuryLabel(t)}
+              </Badge>
+            ))}
+          </div>
+        )}
+
         <div className="flex items-center text-sm text-gray-700">
-          <MapPin className="w-4 h-4 mr-1" style={{ color: PRIMARY }} />
-          <span>{rescue.location}</span>
+          <MapPin className="w-4 h-4 mr-1 shrink-0" style={{ color: PRIMARY }} />
+          <span className="flex-1">{rescue.location}</span>
+          {rescue.distanceMeters !== undefined && (
+            <span className="ml-2 whitespace-nowrap font-medium" title="Distance from your NGO">
+              {formatDistance(rescue.distanceMeters)} away
+            </span>
+          )}
         </div>
 
-        <div className="flex items-center text-sm text-gray-700">
-          <Clock className="w-4 h-4 mr-1" style={{ color: PRIMARY }} />
-          <span>{rescue.reportedAt}</span>
+        <div className="flex items-center flex-wrap gap-x-2 gap-y-1 text-sm text-gray-700">
+          <Clock className="w-4 h-4" style={{ color: PRIMARY }} />
+          <span>{reportedAgo !== null ? `Reported ${reportedAgo} ago` : rescue.reportedAt}</span>
+          {claimedAgo !== null && <span>· claimed {claimedAgo} ago</span>}
+          {sla && sla.state !== "ok" && (
+            <Badge className={slaColors[sla.state]} variant="outline">
+              {sla.state === "overdue"
+                ? `${sla.phase === "claim" ? "Unclaimed" : "Open"} ${formatDuration(sla.elapsedMs - sla.limitMs)} past SLA`
+                : `${sla.phase === "claim" ? "Claim" : "Close"} within ${formatDuration(sla.limitMs - sla.elapsedMs)}`}
+            </Badge>
+          )}
         </div>
+
+        {rescue.claimedBy && (
+          <div className="flex items-center text-sm text-gray-700">
+            <UserCheck className="w-4 h-4 mr-1" style={{ color: PRIMARY }} />
+            <span>Held by {rescue.claimedByYou ? "you" : rescue.claimedBy}</span>
+          </div>
+        )}
+
+        {rescue.transferPendingTo && (
+          <div className="flex items-center text-sm text-amber-800">
+            <ArrowRightLeft className="w-4 h-4 mr-1" />
+            <span>Waiting for {rescue.transferPendingTo} to accept the transfer</span>
+          </div>
+        )}
       </CardContent>
 
-      {(onTakeAction && isActionable) || (onTrack && showTrackButton) || (onPushForAdoption && showAdoptionButton) ? (
+      {(onTakeAction && isActionable) || (onTrack && showTrackButton) || (onPushForAdoption && showAdoptionButton) || (onRelease && rescue.claimedByYou) || canTransfer ? (
         <CardFooter className="flex gap-2">
           {onTakeAction && isActionable && (
             <Button
               onClick={() => onTakeAction(rescue.id)}
+              disabled={busy}
               className="flex-1"
               style={{
                 background: CTA,
@@ -136,7 +333,19 @@ export function RescueCard({
               }}
             >
               <AlertCircle className="w-4 h-4 mr-2" />
-              Take Action
+              {busy ? "Claiming…" : "Take Action"}
+            </Button>
+          )}
+          {onRelease && rescue.claimedByYou && (
+            <Button variant="outline" onClick={() => onRelease(rescue.id)} disabled={busy} className="flex-1">
+              <Undo2 className="w-4 h-4 mr-2" />
+              Release
+            </Button>
+          )}
+          {canTransfer && (
+            <Button variant="outline" onClick={() => onTransfer?.(rescue.id)} disabled={busy} className="flex-1">
+              <ArrowRightLeft className="w-4 h-4 mr-2" />
+              Transfer
             </Button>
           )}
           {onTrack && showTrackButton && (
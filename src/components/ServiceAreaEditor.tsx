@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Circle, Pentagon, Trash2, Undo2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { AREA_COLOR, BASE_MARKER_COLOR, DEFAULT_MAP_CENTER, LatLng, MapHandle, MapMarker } from "@/lib/mapProvider";
+import { openMap } from "@/lib/openMap";
+import {
+  DEFAULT_RADIUS_KM,
+  ServiceArea,
+  areaCenter,
+  areaCorners,
+  areaOutline,
+  circleArea,
+  polygonArea,
+} from "@/lib/serviceArea";
+
+const PRIMARY = "#19C2E6";
+const CORNER_PREFIX = "corner:";
+const CENTRE_ID = "__centre__";
+
+interface ServiceAreaEditorProps {
+  // where editing starts; later changes are ignored (remount with a new key to reset)
+  initialArea?: ServiceArea | null;
+  // the NGO's location: the default circle centre, also shown as a marker
+  center: LatLng | null;
+  // called with null while the area is incomplete (no centre, fewer than three corners)
+  onChange: (area: ServiceArea | null) => void;
+}
+
+/**
+ * Map editor for an NGO's service area.
+ * - Radius: a circle around the NGO's location; clicking the map moves the centre.
+ * - Draw area: clicking the map adds corners of a polygon, clicking a corner removes it.
+ * - Reports the result as GeoJSON (see serviceArea).
+ */
+export function ServiceAreaEditor({ initialArea, center, onChange }: ServiceAreaEditorProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const handleRef = useRef<MapHandle | null>(null);
+  const [ready, setReady] = useState(false);
+  const [mode, setMode] = useState<"radius" | "polygon">(initialArea?.geometry.type === "Polygon" ? "polygon" : "radius");
+  const [radiusKm, setRadiusKm] = useState(String(initialArea?.properties.radius_km || DEFAULT_RADIUS_KM));
+  const [pickedCenter, setPickedCenter] = useState<LatLng | null>(
+    initialArea?.geometry.type === "Point" ? areaCenter(initialArea) : null
+  );
+  const [corners, setCorners] = useState<LatLng[]>(initialArea ? areaCorners(initialArea) : []);
+
+  const circleCenter = pickedCenter || center;
+  const radius = Number(radiusKm);
+  const area =
+    mode === "radius"
+      ? circleCenter && radius > 0
+        ? circleArea(circleCenter, radius)
+        : null
+      : corners.length >= 3
+        ? polygonArea(corners)
+        : null;
+
+  // the map's click handler is bound once; it reads the mode through this ref
+  const modeRef = useRef(mode);
+  modeRef.current = mode;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let cancelled = false;
+    openMap(container, {
+      center: center || (initialArea ? areaCenter(initialArea) : DEFAULT_MAP_CENTER),
+      zoom: 11,
+      onMapClick: (position) => {
+        if (modeRef.current === "polygon") setCorners((prev) => [...prev, position]);
+        else setPickedCenter(position);
+      },
+      onMarkerClick: (id) => {
+        if (!id.startsWith(CORNER_PREFIX)) return;
+        const index = Number(id.slice(CORNER_PREFIX.length));
+        setCorners((prev) => prev.filter((_, i) => i !== index));
+      },
+    }).then(({ handle }) => {
+      if (cancelled) {
+        handle.destroy();
+        return;
+      }
+      handleRef.current = handle;
+      setReady(true);
+    });
+    return () => {
+      cancelled = true;
+      handleRef.current?.destroy();
+      handleRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    onChange(area);
+  }, [mode, radiusKm, circleCenter?.lat, circleCenter?.lng, corners]);
+
+  useEffect(() => {
+    const handle = handleRef.current;
+    if (!handle) return;
+    const markers: MapMarker[] =
+      mode === "polygon"
+        ? corners.map((p, i) => ({ id: `${CORNER_PREFIX}${i}`, position: p, color: AREA_COLOR, kind: "vertex", title: "Click to remove" }))
+        : circleCenter
+          ? [{ id: CENTRE_ID, position: circleCenter, color: AREA_COLOR, kind: "vertex", title: "Centre" }]
+          : [];
+    if (center) markers.push({ id: "__base__", position: center, color: BASE_MARKER_COLOR, kind: "base", title: "Your NGO" });
+    handle.setMarkers(markers);
+    // two corners are drawn as a line so the user sees where the edge goes
+    handle.setArea(area ? areaOutline(area) : corners.length > 1 && mode === "polygon" ? corners : null);
+  }, [ready, mode, radiusKm, circleCenter?.lat, circleCenter?.lng, corners, center?.lat, center?.lng]);
+
+  // frame the area once the map is up, and again when the NGO's location is first picked
+  useEffect(() => {
+    if (!ready) return;
+    const outline = area ? areaOutline(area) : center ? [center] : [];
+    if (outline.length) handleRef.current?.fitTo(outline);
+  }, [ready, center?.lat, center?.lng]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Button type="button" variant={mode === "radius" ? "default" : "outline"} size="sm" onClick={() => setMode("radius")}>
+          <Circle className="w-4 h-4 mr-1" />
+          Radius
+        </Button>
+        <Button type="button" variant={mode === "polygon" ? "default" : "outline"} size="sm" onClick={() => setMode("polygon")}>
+          <Pentagon className="w-4 h-4 mr-1" />
+          Draw area
+        </Button>
+      </div>
+
+      {mode === "radius" ? (
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="service-radius" className="text-gray-700">Radius (km)</Label>
+            <Input
+              id="service-radius"
+              type="number"
+              min={1}
+              value={radiusKm}
+              onChange={(e) => setRadiusKm(e.target.value)}
+              className="w-28 text-black"
+            />
+          </div>
+          <p className="text-xs text-gray-500 pb-2">
+            {circleCenter ? "Click the map to move the centre." : "Choose your location, or click the map to place the centre."}
+          </p>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 flex-wrap">
+          <p className="text-xs text-gray-500 flex-1">
+            Click the map to add corners ({corners.length} so far{corners.length < 3 ? ", at least 3 needed" : ""}); click a
+            corner to remove it.
+          </p>
+          <Button type="button" variant="outline" size="sm" disabled={!corners.length} onClick={() => setCorners((prev) => prev.slice(0, -1))}>
+            <Undo2 className="w-4 h-4 mr-1" />
+            Undo
+          </Button>
+          <Button type="button" variant="outline" size="sm" disabled={!corners.length} onClick={() => setCorners([])}>
+            <Trash2 className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        </div>
+      )}
+
+      <div className="relative h-72 rounded-lg border border-gray-300 overflow-hidden bg-gray-100">
+        <div ref={containerRef} className="absolute inset-0" />
+        {!area && (
+          <p className="absolute bottom-2 left-2 rounded bg-white/90 px-2 py-1 text-xs" style={{ color: PRIMARY }}>
+            No service area yet
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowRightLeft, Check, Siren, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Card, CardContent, CardHeader } from "./ui/card";
+import { CaseTransferRecord } from "@/lib/apiTypes";
+import { escalatesAt } from "@/lib/caseTransfers";
+
+const CTA = "#FF5A1F";
+
+interface TransferInboxProps {
+  // pending offers addressed to this NGO
+  transfers: CaseTransferRecord[];
+  onRespond: (transfer: CaseTransferRecord, decision: "accept" | "decline") => void;
+  // transfer whose answer is in flight
+  busyId?: string | null;
+}
+
+function minutesLeft(at: number | null, now: number) {
+  return at === null ? null : Math.max(0, Math.ceil((at - now) / 60_000));
+}
+
+/**
+ * Cases other NGOs (or the escalation of an unclaimed critical case) are
+ * offering to this NGO.
+ * - Shows who is handing over and why, with a countdown for critical cases.
+ * - Hidden when there is nothing waiting.
+ */
+export function TransferInbox({ transfers, onRespond, busyId }: TransferInboxProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (transfers.length === 0) return null;
+
+  return (
+    <Card className="mb-6 border-2" style={{ background: "#fff7ed", borderColor: CTA, color: "#111827" }}>
+      <CardHeader>
+        <h2 className="font-semibold flex items-center gap-2" style={{ color: CTA }}>
+          <ArrowRightLeft className="w-5 h-5" />
+          Cases offered to you ({transfers.length})
+        </h2>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {transfers.map((t) => {
+          const id = String(t.transfer_id);
+          const c = t.case_payload;
+          const title = String(c?.description || `Case ${t.case_id}`).slice(0, 60);
+          const left = minutesLeft(escalatesAt(t, c?.severity), now);
+          return (
+            <div key={id} className="rounded-md border border-orange-200 bg-white p-3 text-sm">
+              <div className="flex items-start justify-between gap-2">
+                <Link href={`/dashboard/cases/${encodeURIComponent(String(t.case_id))}`} className="font-medium hover:underline">
+                  {title}
+                </Link>
+                <div className="flex gap-1 flex-shrink-0">
+                  {c?.severity && <Badge variant="outline">{c.severity}</Badge>}
+                  {t.escalated && (
+                    <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">
+                      <Siren className="w-3 h-3 mr-1" />
+                      Escalated
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              <p className="mt-1 text-gray-700">
+                {t.from_name || t.from_email ? `From ${t.from_name || t.from_email}` : "Unclaimed critical case"}
+                {c?.location && ` · ${c.location}`}
+              </p>
+              {t.reason && <p className="mt-1 text-gray-800 italic">“{t.reason}”</p>}
+              {left !== null && (
+                <p className="mt-1 text-xs text-red-700">
+                  {left > 0 ? `Moves to the next NGO in ${left} min if not accepted` : "Moving to the next NGO"}
+                </p>
+              )}
+              <div className="flex gap-2 mt-2">
+                <Button
+                  size="sm"
+                  onClick={() => onRespond(t, "accept")}
+                  disabled={busyId === id}
+                  style={{ background: "#10B981", color: "#fff" }}
+                >
+                  <Check className="w-4 h-4 mr-1" />
+                  Accept
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onRespond(t, "decline")} disabled={busyId === id}>
+                  <X className="w-4 h-4 mr-1" />
+                  Decline
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,343 @@
+// Typed client for the Nivaran backend
+// All pages and libs talk to NEXT_PUBLIC_BACKEND_API through here: URLs are
+// built in one place, responses are validated against apiTypes, and every
+// failure surfaces as an ApiError with a kind the UI can branch on.
+
+import { currentAuthUser } from "./authUser";
+import {
+  AdoptionRecord,
+  CaseEventRecord,
+  CaseNoteRecord,
+  CaseRecord,
+  CaseTransferRecord,
+  MessageResponse,
+  NgoCaseAssignment,
+  NgoRecord,
+  ReportCaseResponse,
+  UserProfile,
+  isRecord,
+  parseAdoptionList,
+  parseCaseDetail,
+  parseCaseEventList,
+  parseCaseList,
+  parseCaseNote,
+  parseCaseNoteList,
+  parseCaseTransfer,
+  parseCaseTransferList,
+  parseMessage,
+  parseNgoCaseList,
+  parseNgoList,
+  parsePresignedUrl,
+  parseProfileResponse,
+  parseReportCaseResponse,
+  ApiValidationError,
+} from "./apiTypes";
+
+const BACKEND_API = process.env.NEXT_PUBLIC_BACKEND_API;
+// NEXT_PUBLIC_MOCK_API=1 serves every request from the in-browser mock backend
+const MOCK_API = ["1", "true"].includes(process.env.NEXT_PUBLIC_MOCK_API || "");
+
+export type ApiErrorKind = "config" | "network" | "timeout" | "http" | "validation";
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public kind: ApiErrorKind,
+    public status?: number,
+    // parsed response body for "http" errors
+    public body?: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export function isApiConfigured() {
+  return MOCK_API || Boolean(BACKEND_API);
+}
+
+export function isMockApi() {
+  return MOCK_API;
+}
+
+function isLocalBackend() {
+  if (MOCK_API) return true;
+  return Boolean(BACKEND_API && (BACKEND_API.includes("localhost") || BACKEND_API.includes("127.0.0.1")));
+}
+
+/**
+ * Authorization header for the signed-in Firebase user. Against a local
+ * backend X-UID / X-EMAIL are sent as well, and without a session the
+ * developer identity left in localStorage ("email", "uid") is used. The
+ * fake auth user counts as signed in.
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {};
+  const user = currentAuthUser();
+  if (user) {
+    headers.Authorization = `Bearer ${await user.getIdToken()}`;
+    if (isLocalBackend()) {
+      headers["X-UID"] = user.uid;
+      if (user.email) headers["X-EMAIL"] = user.email;
+    }
+  } else if (typeof window !== "undefined") {
+    const devEmail = localStorage.getItem("email");
+    const devUid = localStorage.getItem("uid");
+    if (devEmail && devUid) {
+      headers["X-EMAIL"] = devEmail;
+      headers["X-UID"] = devUid;
+    }
+  }
+  return headers;
+}
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+  auth?: boolean;
+  timeoutMs?: number;
+}
+
+function errorMessage(body: unknown, status: number) {
+  if (isRecord(body)) {
+    const msg = body.error || body.message;
+    if (typeof msg === "string" && msg) return msg;
+  }
+  return `Server responded ${status}`;
+}
+
+function parseBody<T>(path: string, parse: (body: unknown) => T, body: unknown, status: number): T {
+  try {
+    return parse(body);
+  } catch (err) {
+    if (err instanceof ApiValidationError) {
+      console.error(`Invalid response from ${path}`, err, body);
+      throw new ApiError(err.message, "validation", status, body);
+    }
+    throw err;
+  }
+}
+
+async function request<T>(path: string, parse: (body: unknown) => T, options: RequestOptions = {}): Promise<T> {
+  if (MOCK_API) return mockRequest(path, parse, options);
+  if (!BACKEND_API) {
+    throw new ApiError("Backend API not configured (NEXT_PUBLIC_BACKEND_API)", "config");
+  }
+
+  const params = new URLSearchParams();
+  Object.entries(options.query || {}).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const qs = params.toString();
+  const url = `${BACKEND_API}${path}${qs ? `?${qs}` : ""}`;
+
+  const headers: Record<string, string> = options.auth ? await getAuthHeaders() : {};
+  if (options.body !== undefined) headers["Content-Type"] = "application/json";
+
+  const controller = options.timeoutMs ? new AbortController() : null;
+  const timer = controller ? setTimeout(() => controller.abort(), options.timeoutMs) : null;
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: options.method || "GET",
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal: controller?.signal,
+    });
+  } catch (err) {
+    if ((err as Error)?.name === "AbortError") {
+      throw new ApiError("Request timed out. Backend did not respond in time.", "timeout");
+    }
+    throw new ApiError("Could not reach the backend", "network");
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+
+  const text = await res.text().catch(() => "");
+  let body: unknown = undefined;
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = text;
+    }
+  }
+
+  if (!res.ok) throw new ApiError(errorMessage(body, res.status), "http", res.status, body);
+  return parseBody(path, parse, body, res.status);
+}
+
+async function mockRequest<T>(path: string, parse: (body: unknown) => T, options: RequestOptions): Promise<T> {
+  const query: Record<string, string> = {};
+  Object.entries(options.query || {}).forEach(([key, value]) => {
+    if (value !== undefined) query[key] = String(value);
+  });
+  // loaded on demand so the mock and its fixtures stay out of production bundles
+  const { handleMockRequest } = await import("./mockBackend");
+  const res = await handleMockRequest({
+    method: options.method || "GET",
+    path,
+    query,
+    // round-trip through JSON so the mock sees exactly what fetch would send
+    body: options.body !== undefined ? JSON.parse(JSON.stringify(options.body)) : undefined,
+    headers: options.auth ? await getAuthHeaders() : {},
+  });
+  if (res.status >= 400) throw new ApiError(errorMessage(res.body, res.status), "http", res.status, res.body);
+  return parseBody(path, parse, res.body, res.status);
+}
+
+const id = (value: string | number) => encodeURIComponent(String(value));
+
+export const api = {
+  cases: {
+    // full records, reporter contact details included: NGO users only
+    get: (caseId: string) => request<CaseRecord>(`/cases/${id(caseId)}`, parseCaseDetail, { auth: true }),
+    events: (caseId: string) =>
+      request<CaseEventRecord[]>(`/cases/${id(caseId)}/events`, parseCaseEventList, { auth: true }),
+    logEvent: (caseId: string, event: { type: string; actor?: string; note?: string; [key: string]: unknown }) =>
+      request<MessageResponse>(`/cases/${id(caseId)}/events`, parseMessage, { method: "POST", body: event, auth: true }),
+    report: (payload: Record<string, unknown>) =>
+      request<ReportCaseResponse>("/report-case", parseReportCaseResponse, { method: "POST", body: payload }),
+    nearby: (ngoEmail: string) => request<CaseRecord[]>("/cases-nearby", parseCaseList, { query: { email: ngoEmail } }),
+    recent: (query: { lat: number; lng: number; radius_m: number; hours: number }) =>
+      request<CaseRecord[]>("/cases/recent", parseCaseList, { query }),
+    // Claim, release, severity and verify act for an NGO: the email in the body
+    // names it, the signed-in user's token proves they belong to it.
+    // version is the one the NGO last saw; a stale version is rejected with 409
+    takeAction: (caseId: string, ngoEmail: string, version?: number) =>
+      request<MessageResponse & { version?: number }>(`/cases/${id(caseId)}/take-action`, parseMessage, {
+        method: "POST",
+        body: { email: ngoEmail, version },
+        auth: true,
+      }),
+    release: (caseId: string, ngoEmail: string, version?: number) =>
+      request<MessageResponse & { version?: number }>(`/cases/${id(caseId)}/release`, parseMessage, {
+        method: "POST",
+        body: { email: ngoEmail, version },
+        auth: true,
+      }),
+    // triage correction; only the holder may change a claimed case
+    setSeverity: (caseId: string, ngoEmail: string, severity: string) =>
+      request<MessageResponse>(`/cases/${id(caseId)}`, parseMessage, {
+        method: "PATCH",
+        body: { email: ngoEmail, severity },
+        auth: true,
+      }),
+    verify: (caseId: string, ngoEmail: string, decision: "confirm" | "dismiss") =>
+      request<MessageResponse>(`/cases/${id(caseId)}/verify`, parseMessage, {
+        method: "POST",
+        body: { email: ngoEmail, decision },
+        auth: true,
+      }),
+    attach: (caseId: string, body: Record<string, unknown>) =>
+      request<MessageResponse>(`/cases/${id(caseId)}/attach`, parseMessage, { method: "POST", body }),
+    // public, reduced view used by the reporter tracking page
+    track: (code: string) => request<Record<string, unknown>>(`/track/${id(code)}`, (b) => (isRecord(b) ? b : {})),
+  },
+  // visible to and editable by the team of the NGO holding the case (403 otherwise)
+  notes: {
+    list: (caseId: string) => request<CaseNoteRecord[]>(`/cases/${id(caseId)}/notes`, parseCaseNoteList, { auth: true }),
+    add: (caseId: string, body: Record<string, unknown>) =>
+      request<CaseNoteRecord>(`/cases/${id(caseId)}/notes`, parseCaseNote, { method: "POST", body, auth: true }),
+    update: (caseId: string, noteId: string, patch: Record<string, unknown>) =>
+      request<CaseNoteRecord>(`/cases/${id(caseId)}/notes/${id(noteId)}`, parseCaseNote, {
+        method: "PATCH",
+        body: patch,
+        auth: true,
+      }),
+  },
+  // offers run from the holder to another NGO; the case moves once the receiver accepts
+  transfers: {
+    list: (ngoEmail: string) =>
+      request<CaseTransferRecord[]>("/transfers", parseCaseTransferList, { query: { email: ngoEmail }, auth: true }),
+    request: (caseId: string, body: { email: string; to_email: string; reason: string; version?: number }) =>
+      request<CaseTransferRecord>(`/cases/${id(caseId)}/transfer`, parseCaseTransfer, { method: "POST", body, auth: true }),
+    respond: (transferId: string, ngoEmail: string, decision: "accept" | "decline", reason?: string) =>
+      request<MessageResponse & { version?: number }>(`/transfers/${id(transferId)}/respond`, parseMessage, {
+        method: "POST",
+        body: { email: ngoEmail, decision, reason },
+        auth: true,
+      }),
+  },
+  ngoCases: {
+    list: (ngoEmail: string) =>
+      request<NgoCaseAssignment[]>("/ngo-cases", parseNgoCaseList, { query: { email: ngoEmail } }),
+    update: (caseId: string, patch: Record<string, unknown>) =>
+      request<MessageResponse>(`/ngo-cases/${id(caseId)}`, parseMessage, { method: "PATCH", body: patch, auth: true }),
+    close: (caseId: string, closure: CaseClosure) =>
+      request<MessageResponse>(`/ngo-cases/${id(caseId)}`, parseMessage, {
+        method: "PATCH",
+        body: { status: "completed", ...closure },
+        auth: true,
+      }),
+  },
+  adoptions: {
+    list: (status: "available" | "adopted" | "all") =>
+      request<AdoptionRecord[]>("/adoptions", parseAdoptionList, { query: { status } }),
+    create: (body: Record<string, unknown>) =>
+      request<MessageResponse & { adoption_id?: string }>("/adoptions", parseMessage, { method: "POST", body }),
+    update: (adoptionId: string, patch: Record<string, unknown>) =>
+      request<MessageResponse>(`/adoptions/${id(adoptionId)}`, parseMessage, { method: "PATCH", body: patch }),
+  },
+  ngos: {
+    list: () => request<NgoRecord[]>("/ngos", parseNgoList),
+    create: (body: Record<string, unknown>, timeoutMs?: number) =>
+      request<MessageResponse & { ngo_id?: string }>("/ngos", parseMessage, { method: "POST", body, timeoutMs }),
+    update: (ngoId: string, patch: Record<string, unknown>) =>
+      request<MessageResponse>(`/ngos/${id(ngoId)}`, parseMessage, { method: "PATCH", body: patch }),
+  },
+  users: {
+    profile: () => request<UserProfile>("/users/profile", parseProfileResponse, { auth: true }),
+    saveProfile: (body: Record<string, unknown>, timeoutMs?: number) =>
+      request<MessageResponse>("/users/profile", parseMessage, { method: "POST", body, auth: true, timeoutMs }),
+  },
+  presign: {
+    caseImage: (caseId: string) => request(`/cases/${id(caseId)}/image-url`, parsePresignedUrl).then((r) => r.url),
+    // the case id in this route is ignored when ?key= is given
+    s3Key: (key: string) =>
+      request("/cases/dummy/image-url", parsePresignedUrl, { query: { key } }).then((r) => r.url),
+    adoptionImage: (adoptionId: string) =>
+      request(`/adoptions/${id(adoptionId)}/image-url`, parsePresignedUrl).then((r) => r.url),
+  },
+};
+
+// Server-sent case events for an NGO; null when the mock backend is in use
+export function caseFeedUrl(ngoEmail: string) {
+  if (MOCK_API || !BACKEND_API) return null;
+  return `${BACKEND_API}/cases/stream?${new URLSearchParams({ email: ngoEmail }).toString()}`;
+}
+
+export interface CaseClosure {
+  // one of CASE_OUTCOMES
+  outcome: string;
+  closure_notes?: string;
+  // base64 JPEGs without the data: prefix
+  after_photos_base64?: string[];
+}
+
+// Body of a 409 from take-action / release: who holds the case now
+export interface ClaimConflict {
+  claimedBy?: string;
+  claimedByEmail?: string;
+  status?: string;
+  version?: number;
+}
+
+export function claimConflict(err: unknown): ClaimConflict | null {
+  if (!(err instanceof ApiError) || err.kind !== "http" || err.status !== 409) return null;
+  const body = isRecord(err.body) ? err.body : {};
+  return {
+    claimedBy: typeof body.claimed_by === "string" ? body.claimed_by : undefined,
+    claimedByEmail: typeof body.claimed_by_email === "string" ? body.claimed_by_email : undefined,
+    status: typeof body.status === "string" ? body.status : undefined,
+    version: body.version !== undefined ? Number(body.version) : undefined,
+  };
+}
+
+// Find an NGO by contact email in GET /ngos (there is no lookup endpoint)
+export async function findNgoByEmail(email: string): Promise<NgoRecord | null> {
+  const ngos = await api.ngos.list();
+  return ngos.find((n) => String(n.email || "").toLowerCase() === email.toLowerCase()) || null;
+}
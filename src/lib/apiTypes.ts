@@ -0,0 +1,387 @@
+// Shared backend domain types and runtime response validation
+// Each record type has a matching shape that apiClient checks responses
+// against, so a renamed or retyped field fails loudly at the boundary instead
+// of turning into "undefined" deep inside a page. Unknown extra fields are
+// passed through untouched.
+
+type FieldKind = "string" | "number" | "boolean" | "array" | "object" | "id" | "numeric";
+type Shape = Record<string, FieldKind | `${FieldKind}?`>;
+
+export class ApiValidationError extends Error {
+  constructor(public what: string, public field: string, public value: unknown) {
+    super(`Unexpected ${what} from backend: "${field}" is ${value === null ? "null" : typeof value}`);
+    this.name = "ApiValidationError";
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function matches(kind: FieldKind, value: unknown) {
+  switch (kind) {
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isRecord(value);
+    // DynamoDB ids come back as strings or numbers
+    case "id":
+      return typeof value === "string" || typeof value === "number";
+    // coordinates and scores are sometimes serialised as strings
+    case "numeric":
+      return (typeof value === "number" || typeof value === "string") && value !== "" && Number.isFinite(Number(value));
+    default:
+      return typeof value === kind;
+  }
+}
+
+function check<T>(value: unknown, shape: Shape, what: string): T {
+  if (!isRecord(value)) throw new ApiValidationError(what, "(root)", value);
+  for (const [field, spec] of Object.entries(shape)) {
+    const optional = spec.endsWith("?");
+    const kind = (optional ? spec.slice(0, -1) : spec) as FieldKind;
+    const v = value[field];
+    if (v === undefined || v === null || (optional && v === "")) {
+      if (optional) continue;
+      throw new ApiValidationError(what, field, v);
+    }
+    if (!matches(kind, v)) throw new ApiValidationError(what, field, v);
+  }
+  return value as T;
+}
+
+function checkList<T>(value: unknown, item: (v: unknown) => T, what: string): T[] {
+  // a few endpoints wrap lists as { items: [...] } or { cases: [...] }
+  const wrapped = isRecord(value) ? value.items ?? value.cases : undefined;
+  const list = Array.isArray(value) ? value : Array.isArray(wrapped) ? wrapped : null;
+  if (!list) throw new ApiValidationError(what, "(root)", value);
+  return list.map(item);
+}
+
+// ---- Cases ----
+
+export interface CaseRecord {
+  case_id: string | number;
+  description?: string;
+  location?: string;
+  severity?: string;
+  status?: string;
+  latitude?: number | string;
+  longitude?: number | string;
+  created_at?: string;
+  contact_name?: string;
+  contact_phone?: string;
+  s3_key?: string;
+  s3_keys?: string[];
+  video_s3_key?: string;
+  species?: string;
+  injury_types?: string[];
+  animal_count?: number;
+  verification_status?: string;
+  override_reason?: string;
+  severity_suggested?: string;
+  severity_score?: number;
+  tracking_code?: string;
+  rekognition_labels?: { Name?: string; Confidence?: number }[];
+  // bumped on every claim / release; sent back when claiming
+  version?: number | string;
+  // NGO currently holding the case
+  claimed_by?: string;
+  claimed_by_email?: string;
+  // set when the case is closed (see caseOutcomes)
+  outcome?: string;
+  closure_notes?: string;
+  after_photo_keys?: string[];
+  // filled in client-side once presigned
+  image_presigned_url?: string;
+  image_presigned_urls?: string[];
+  video_presigned_url?: string;
+  [key: string]: unknown;
+}
+
+const CASE_SHAPE: Shape = {
+  case_id: "id",
+  description: "string?",
+  location: "string?",
+  severity: "string?",
+  status: "string?",
+  latitude: "numeric?",
+  longitude: "numeric?",
+  created_at: "string?",
+  s3_key: "string?",
+  s3_keys: "array?",
+  video_s3_key: "string?",
+  injury_types: "array?",
+  rekognition_labels: "array?",
+  version: "numeric?",
+  claimed_by: "string?",
+  claimed_by_email: "string?",
+  outcome: "string?",
+  after_photo_keys: "array?",
+};
+
+export const parseCase = (v: unknown) => check<CaseRecord>(v, CASE_SHAPE, "case");
+export const parseCaseList = (v: unknown) => checkList(v, parseCase, "case list");
+
+// GET /cases/{id} returns the case bare or as { case: {...} }
+export const parseCaseDetail = (v: unknown) => parseCase(isRecord(v) && isRecord(v.case) ? v.case : v);
+
+// Entry of a case's activity log (GET /cases/{id}/events)
+export interface CaseEventRecord {
+  type: string;
+  at: string;
+  // NGO or person who did it
+  actor?: string;
+  note?: string;
+  [key: string]: unknown;
+}
+
+export const parseCaseEventList = (v: unknown) =>
+  checkList(
+    // some backends name the list "events"
+    isRecord(v) && Array.isArray(v.events) ? v.events : v,
+    (item) => check<CaseEventRecord>(item, { type: "string", at: "string", actor: "string?", note: "string?" }, "case event"),
+    "case event list"
+  );
+
+// Entry of the NGO's notes / treatment log on a case (/cases/{id}/notes)
+export interface CaseNoteRecord {
+  note_id: string | number;
+  case_id?: string | number;
+  // "note" | "vet_visit" | "medication" | "treatment"
+  kind?: string;
+  text?: string;
+  author_email?: string;
+  author_name?: string;
+  created_at?: string;
+  updated_at?: string;
+  vet_name?: string;
+  medication?: string;
+  dosage?: string;
+  cost?: number | string;
+  photo_keys?: string[];
+  [key: string]: unknown;
+}
+
+const CASE_NOTE_SHAPE: Shape = {
+  note_id: "id",
+  kind: "string?",
+  text: "string?",
+  author_email: "string?",
+  created_at: "string?",
+  cost: "numeric?",
+  photo_keys: "array?",
+};
+
+export const parseCaseNote = (v: unknown) => check<CaseNoteRecord>(v, CASE_NOTE_SHAPE, "case note");
+export const parseCaseNoteList = (v: unknown) =>
+  checkList(isRecord(v) && Array.isArray(v.notes) ? v.notes : v, parseCaseNote, "case note list");
+
+// Offer to hand a case over to another NGO (/cases/{id}/transfer, /transfers)
+export interface CaseTransferRecord {
+  transfer_id: string | number;
+  case_id: string | number;
+  // NGO handing the case off; empty when an unclaimed case was escalated
+  from_email?: string;
+  from_name?: string;
+  to_email: string;
+  to_name?: string;
+  reason?: string;
+  // "pending" | "accepted" | "declined" | "expired" | "cancelled"
+  status: string;
+  requested_at: string;
+  responded_at?: string;
+  decline_reason?: string;
+  // made by the backend because a critical case went unaccepted
+  escalated?: boolean;
+  // the case as it was when the list was fetched
+  case_payload?: CaseRecord;
+  [key: string]: unknown;
+}
+
+const CASE_TRANSFER_SHAPE: Shape = {
+  transfer_id: "id",
+  case_id: "id",
+  to_email: "string",
+  status: "string",
+  requested_at: "string",
+  escalated: "boolean?",
+  case_payload: "object?",
+};
+
+export const parseCaseTransfer = (v: unknown) => check<CaseTransferRecord>(v, CASE_TRANSFER_SHAPE, "case transfer");
+export const parseCaseTransferList = (v: unknown) =>
+  checkList(isRecord(v) && Array.isArray(v.transfers) ? v.transfers : v, parseCaseTransfer, "case transfer list");
+
+// Totals over a case's treatment log; also attached to adoption listings
+export interface TreatmentSummary {
+  vet_visits?: number;
+  treatments?: number;
+  medications?: string[];
+  total_cost?: number;
+  last_treated_at?: string;
+}
+
+// Message pushed on the /cases/stream SSE channel
+export type CaseFeedEvent =
+  | { type: "created"; case: CaseRecord }
+  | { type: "updated"; case_id: string | number; status?: string; ngo_email?: string; [key: string]: unknown }
+  | { type: "removed"; case_id: string | number };
+
+export function parseCaseFeedEvent(v: unknown): CaseFeedEvent {
+  const event = check<{ type: string }>(v, { type: "string" }, "case feed event");
+  if (event.type === "created") return { type: "created", case: parseCase((v as { case?: unknown }).case) };
+  if (event.type === "updated") return check<CaseFeedEvent>(v, { case_id: "id", status: "string?" }, "case feed event");
+  if (event.type === "removed") return check<CaseFeedEvent>(v, { case_id: "id" }, "case feed event");
+  throw new ApiValidationError("case feed event", "type", event.type);
+}
+
+// Row of the ngo-cases table: an assignment wrapping the original case
+export interface NgoCaseAssignment {
+  case_id?: string | number;
+  ngo_id?: string | number;
+  status?: string;
+  taken_at?: string;
+  completed_at?: string;
+  outcome?: string;
+  closure_notes?: string;
+  after_photo_keys?: string[];
+  s3_key?: string;
+  latitude?: number | string;
+  longitude?: number | string;
+  // older rows store the case as a JSON string
+  case_payload?: Record<string, unknown> | string;
+  [key: string]: unknown;
+}
+
+const NGO_CASE_SHAPE: Shape = {
+  case_id: "id?",
+  ngo_id: "id?",
+  status: "string?",
+  taken_at: "string?",
+  outcome: "string?",
+  after_photo_keys: "array?",
+  s3_key: "string?",
+  latitude: "numeric?",
+  longitude: "numeric?",
+};
+
+export const parseNgoCaseList = (v: unknown) =>
+  checkList(v, (item) => check<NgoCaseAssignment>(item, NGO_CASE_SHAPE, "NGO case"), "NGO case list");
+
+// Response of POST /report-case
+export interface ReportCaseResponse {
+  status?: string;
+  message?: string;
+  case_id?: string | number;
+  tracking_code?: string;
+  rekognition_labels?: { Name?: string; Confidence?: number }[];
+  [key: string]: unknown;
+}
+
+export const parseReportCaseResponse = (v: unknown) =>
+  check<ReportCaseResponse>(isRecord(v) ? v : {}, { status: "string?", case_id: "id?", tracking_code: "string?", rekognition_labels: "array?" }, "report response");
+
+// ---- Adoptions ----
+
+export type AdoptionStatus = "available" | "adopted" | string;
+
+export interface AdoptionRecord {
+  adoption_id: string | number;
+  case_id?: string | number;
+  ngo_email?: string;
+  name?: string;
+  animal_type?: string;
+  breed?: string;
+  age?: string | number;
+  gender?: string;
+  description?: string;
+  vaccinated?: boolean;
+  neutered?: boolean;
+  adoption_status?: AdoptionStatus;
+  // medical history from the rescue, without internal costs
+  treatment_summary?: TreatmentSummary;
+  [key: string]: unknown;
+}
+
+const ADOPTION_SHAPE: Shape = {
+  adoption_id: "id",
+  case_id: "id?",
+  ngo_email: "string?",
+  name: "string?",
+  animal_type: "string?",
+  adoption_status: "string?",
+  treatment_summary: "object?",
+};
+
+export const parseAdoption = (v: unknown) => check<AdoptionRecord>(v, ADOPTION_SHAPE, "adoption");
+export const parseAdoptionList = (v: unknown) => checkList(v, parseAdoption, "adoption list");
+
+// ---- NGOs ----
+
+// An NGO's service area as a GeoJSON Feature. GeoJSON has no circle, so a
+// radius area is its centre Point plus properties.radius_km.
+export interface ServiceArea {
+  type: "Feature";
+  geometry: { type: "Polygon"; coordinates: number[][][] } | { type: "Point"; coordinates: number[] };
+  properties: { radius_km?: number };
+}
+
+export interface NgoRecord {
+  ngo_id?: string | number;
+  name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  latitude?: number | string;
+  longitude?: number | string;
+  service_radius_km?: number | string;
+  // validated separately by parseServiceArea; older NGOs only have the radius
+  service_area?: ServiceArea | null;
+  [key: string]: unknown;
+}
+
+const NGO_SHAPE: Shape = {
+  ngo_id: "id?",
+  name: "string?",
+  email: "string?",
+  latitude: "numeric?",
+  longitude: "numeric?",
+  service_radius_km: "numeric?",
+  service_area: "object?",
+};
+
+export const parseNgo = (v: unknown) => check<NgoRecord>(v, NGO_SHAPE, "NGO");
+export const parseNgoList = (v: unknown) => checkList(v, parseNgo, "NGO list");
+
+// ---- Users ----
+
+export interface UserProfile {
+  uid?: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  location?: string;
+  bio?: string;
+  joinedDate?: string;
+  role?: "user" | "ngo" | string;
+  [key: string]: unknown;
+}
+
+// GET /users/profile wraps the profile as { profile: {...} }
+export function parseProfileResponse(v: unknown): UserProfile {
+  const body = check<{ profile?: unknown }>(v, { profile: "object?" }, "profile response");
+  return check<UserProfile>(body.profile ?? {}, { email: "string?", role: "string?", name: "string?" }, "profile");
+}
+
+// ---- Misc ----
+
+export interface MessageResponse {
+  message?: string;
+  [key: string]: unknown;
+}
+
+export const parseMessage = (v: unknown) => check<MessageResponse>(isRecord(v) ? v : {}, { message: "string?" }, "response");
+
+export const parsePresignedUrl = (v: unknown) => check<{ url: string }>(v, { url: "string" }, "presigned URL");
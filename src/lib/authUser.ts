@@ -0,0 +1,53 @@
+// Signed-in user, from Firebase or from the fake auth mode
+// With NEXT_PUBLIC_FAKE_AUTH=ngo|user the app is always signed in as a fixture
+// identity (see mockFixtures) and Firebase is never touched, so pages can be
+// used offline together with the mock backend.
+
+import { getApps } from "firebase/app";
+import { getAuth, onAuthStateChanged, signOut } from "firebase/auth";
+import { FAKE_USERS } from "./mockFixtures";
+
+// The parts of a Firebase User the app relies on
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  getIdToken: () => Promise<string>;
+}
+
+const FAKE_AUTH_ROLE = process.env.NEXT_PUBLIC_FAKE_AUTH;
+
+export function isFakeAuth() {
+  return FAKE_AUTH_ROLE === "ngo" || FAKE_AUTH_ROLE === "user";
+}
+
+function fakeUser(): AuthUser | null {
+  if (!isFakeAuth()) return null;
+  const fixture = FAKE_USERS[FAKE_AUTH_ROLE as "ngo" | "user"];
+  return {
+    uid: fixture.uid,
+    email: fixture.email,
+    displayName: fixture.name,
+    getIdToken: async () => `fake-token-${fixture.uid}`,
+  };
+}
+
+export function currentAuthUser(): AuthUser | null {
+  if (isFakeAuth()) return fakeUser();
+  return getApps().length ? getAuth().currentUser : null;
+}
+
+// Like onAuthStateChanged; the fake user is reported once, asynchronously
+export function watchAuthUser(callback: (user: AuthUser | null) => void): () => void {
+  if (isFakeAuth()) {
+    const timer = setTimeout(() => callback(fakeUser()), 0);
+    return () => clearTimeout(timer);
+  }
+  return onAuthStateChanged(getAuth(), callback);
+}
+
+export async function signOutUser() {
+  // the fake identity cannot sign out; callers still navigate away
+  if (isFakeAuth()) return;
+  await signOut(getAuth());
+}
@@ -0,0 +1,43 @@
+// Running one dashboard action over several selected cases
+// Cases are processed one after another so version conflicts and holder
+// checks are evaluated against the state each earlier step left behind, and
+// a failure on one case never stops the rest.
+
+import { ApiError, claimConflict } from "./apiClient";
+import { CaseRecord } from "./apiTypes";
+
+export interface BulkResult {
+  caseId: string;
+  title: string;
+  ok: boolean;
+  // what happened, or why it failed
+  message?: string;
+}
+
+export function bulkErrorMessage(err: unknown) {
+  const held = claimConflict(err);
+  if (held) return held.claimedBy ? `Already claimed by ${held.claimedBy}` : "Changed since you loaded it";
+  if (err instanceof ApiError && err.kind === "network") return "Network error";
+  return (err as Error)?.message || "Failed";
+}
+
+// `action` may return a short note for the summary, or throw to mark the case failed
+export async function runBulk(
+  cases: CaseRecord[],
+  action: (c: CaseRecord) => Promise<string | void>,
+  onProgress?: (done: number) => void
+): Promise<BulkResult[]> {
+  const results: BulkResult[] = [];
+  for (const c of cases) {
+    const caseId = String(c.case_id);
+    const title = String(c.description || `Case ${caseId}`).slice(0, 60);
+    try {
+      const message = await action(c);
+      results.push({ caseId, title, ok: true, message: message || undefined });
+    } catch (err) {
+      results.push({ caseId, title, ok: false, message: bulkErrorMessage(err) });
+    }
+    onProgress?.(results.length);
+  }
+  return results;
+}
@@ -0,0 +1,106 @@
+// Getting cases out of the dashboard: CSV export and a printable dispatch sheet
+// Both work on the raw CaseRecords so the output does not depend on how the
+// cards happen to be rendered.
+
+import { CaseRecord } from "./apiTypes";
+import { severityRank } from "./severityScoring";
+import { injuryLabel, speciesFromLabels } from "./taxonomy";
+
+const COLUMNS: [string, (c: CaseRecord) => unknown][] = [
+  ["case_id", (c) => c.case_id],
+  ["tracking_code", (c) => c.tracking_code],
+  ["severity", (c) => c.severity],
+  ["status", (c) => c.status],
+  ["species", (c) => c.species || speciesFromLabels(c.rekognition_labels)],
+  ["animal_count", (c) => c.animal_count],
+  ["injuries", (c) => (c.injury_types || []).map(injuryLabel).join("; ")],
+  ["location", (c) => c.location],
+  ["latitude", (c) => c.latitude],
+  ["longitude", (c) => c.longitude],
+  ["reported_at", (c) => c.created_at],
+  ["claimed_by", (c) => c.claimed_by],
+  ["contact_name", (c) => c.contact_name],
+  ["contact_phone", (c) => c.contact_phone],
+  ["description", (c) => c.description],
+];
+
+function csvCell(value: unknown) {
+  let text = value === undefined || value === null ? "" : String(value);
+  // Excel and Sheets run cells starting with these as formulas; reporters
+  // write descriptions and locations, so defuse them (plain numbers such as a
+  // negative longitude are left alone)
+  if (/^[=+\-@\t\r]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function casesToCsv(cases: CaseRecord[]) {
+  const rows = cases.map((c) => COLUMNS.map(([, get]) => csvCell(get(c))).join(","));
+  return [COLUMNS.map(([name]) => name).join(","), ...rows].join("\r\n");
+}
+
+export function downloadCsv(cases: CaseRecord[], filename = `cases-${new Date().toISOString().slice(0, 10)}.csv`) {
+  const url = URL.createObjectURL(new Blob([casesToCsv(cases)], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? "").replace(/[&<>"']/g, (ch) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[ch] as string);
+
+// One page for the field team: most urgent first, with directions links and
+// an empty column for handwritten notes
+export function dispatchSheetHtml(cases: CaseRecord[], ngoName?: string | null) {
+  const sorted = [...cases].sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+  const rows = sorted
+    .map((c, i) => {
+      const hasCoords = c.latitude !== undefined && c.longitude !== undefined;
+      const directions = hasCoords ? `https://www.google.com/maps/dir/?api=1&destination=${c.latitude},${c.longitude}` : "";
+      return `<tr>
+  <td>${i + 1}</td>
+  <td><strong>${escapeHtml(c.tracking_code || c.case_id)}</strong><br>${escapeHtml(String(c.description || "").slice(0, 140))}</td>
+  <td>${escapeHtml(c.severity)}</td>
+  <td>${escapeHtml(c.species || speciesFromLabels(c.rekognition_labels) || "")}${Number(c.animal_count) > 1 ? ` ×${escapeHtml(c.animal_count)}` : ""}<br>${escapeHtml((c.injury_types || []).map(injuryLabel).join(", "))}</td>
+  <td>${escapeHtml(c.location)}${hasCoords ? `<br><small>${escapeHtml(c.latitude)}, ${escapeHtml(c.longitude)}</small><br><a href="${escapeHtml(directions)}">Directions</a>` : ""}</td>
+  <td>${escapeHtml(c.contact_name)}<br>${escapeHtml(c.contact_phone)}</td>
+  <td class="notes"></td>
+</tr>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>Dispatch sheet</title>
+<style>
+  body { font-family: sans-serif; font-size: 12px; margin: 24px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+  th, td { border: 1px solid #999; padding: 6px; vertical-align: top; text-align: left; }
+  th { background: #eee; }
+  td.notes { width: 20%; }
+  tr { page-break-inside: avoid; }
+</style></head>
+<body>
+<h1>Dispatch sheet${ngoName ? ` — ${escapeHtml(ngoName)}` : ""}</h1>
+<div>${escapeHtml(new Date().toLocaleString())} · ${sorted.length} case${sorted.length === 1 ? "" : "s"}</div>
+<table>
+<thead><tr><th>#</th><th>Case</th><th>Severity</th><th>Animal</th><th>Location</th><th>Reporter</th><th>Field notes</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body></html>`;
+}
+
+// Opens the sheet in a new window and brings up the print dialog; false when popups are blocked
+export function printDispatchSheet(cases: CaseRecord[], ngoName?: string | null) {
+  const win = window.open("", "_blank");
+  if (!win) return false;
+  win.document.write(dispatchSheetHtml(cases, ngoName));
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+}
@@ -0,0 +1,150 @@
+// Live feed of nearby cases for the NGO dashboard
+// Listens on the backend's /cases/stream server-sent events. Each message is
+// a JSON CaseFeedEvent ({ type: "created" | "updated" | "removed", ... }).
+// When the stream is unavailable (no SSE support, mock backend, or the
+// connection keeps failing) it falls back to polling GET /cases-nearby and
+// diffing successive snapshots into the same events.
+
+import { api, caseFeedUrl } from "./apiClient";
+import { CaseFeedEvent, CaseRecord, parseCaseFeedEvent } from "./apiTypes";
+
+export type { CaseFeedEvent };
+export type CaseFeedMode = "connecting" | "live" | "polling";
+
+const POLL_MS = Number(process.env.NEXT_PUBLIC_CASE_POLL_MS) || 20000;
+
+interface CaseFeedHandlers {
+  onEvent: (event: CaseFeedEvent) => void;
+  onModeChange?: (mode: CaseFeedMode) => void;
+  // the list the caller has already loaded, or null while it is still loading;
+  // polling diffs against it so nothing created in between is missed
+  baseline?: () => CaseRecord[] | null;
+}
+
+const byId = (list: CaseRecord[]) => new Map(list.map((c) => [String(c.case_id), c]));
+
+// Events that turn one /cases-nearby snapshot into the next
+function diffSnapshots(prev: Map<string, CaseRecord>, next: CaseRecord[]): CaseFeedEvent[] {
+  const events: CaseFeedEvent[] = [];
+  const seen = new Set<string>();
+  for (const c of next) {
+    const id = String(c.case_id);
+    seen.add(id);
+    const before = prev.get(id);
+    if (!before) events.push({ type: "created", case: c });
+    else if (
+      (before.status || "New") !== (c.status || "New") ||
+      before.verification_status !== c.verification_status ||
+      before.claimed_by_email !== c.claimed_by_email
+    ) {
+      events.push({
+        type: "updated",
+        case_id: id,
+        status: c.status,
+        verification_status: c.verification_status,
+        claimed_by: c.claimed_by,
+        claimed_by_email: c.claimed_by_email,
+        version: c.version,
+      });
+    }
+  }
+  // gone from the nearby list: taken by another NGO or dismissed
+  prev.forEach((_, id) => {
+    if (!seen.has(id)) events.push({ type: "removed", case_id: id });
+  });
+  return events;
+}
+
+function startPolling(ngoEmail: string, handlers: CaseFeedHandlers) {
+  let snapshot: Map<string, CaseRecord> | null = null;
+  let stopped = false;
+
+  const poll = async () => {
+    if (typeof document !== "undefined" && document.hidden && snapshot) return;
+    if (!snapshot && handlers.baseline) {
+      const loaded = handlers.baseline();
+      if (!loaded) return;
+      snapshot = byId(loaded);
+    }
+    try {
+      const list = await api.cases.nearby(ngoEmail);
+      if (stopped) return;
+      // without a baseline from the caller, the first snapshot is the baseline
+      if (snapshot) diffSnapshots(snapshot, list).forEach(handlers.onEvent);
+      snapshot = byId(list);
+    } catch (err) {
+      console.warn("Case feed poll failed", err);
+    }
+  };
+
+  handlers.onModeChange?.("polling");
+  poll();
+  const timer = setInterval(poll, POLL_MS);
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+}
+
+/**
+ * Subscribe to case events for an NGO. Returns an unsubscribe function.
+ * Prefers the SSE stream and drops to polling for the rest of the session if
+ * the stream never opens or closes for good.
+ */
+export function subscribeToCaseFeed(ngoEmail: string, handlers: CaseFeedHandlers): () => void {
+  const url = caseFeedUrl(ngoEmail);
+  if (!url || typeof EventSource === "undefined") return startPolling(ngoEmail, handlers);
+
+  let stopPolling: (() => void) | null = null;
+  let opened = false;
+  const source = new EventSource(url);
+  handlers.onModeChange?.("connecting");
+
+  source.onopen = () => {
+    opened = true;
+    handlers.onModeChange?.("live");
+  };
+  source.onmessage = (e) => {
+    try {
+      handlers.onEvent(parseCaseFeedEvent(JSON.parse(e.data)));
+    } catch (err) {
+      console.warn("Ignoring malformed case feed message", err, e.data);
+    }
+  };
+  // EventSource reconnects by itself once it has been open; CLOSED means it gave up
+  source.onerror = () => {
+    if (stopPolling || (opened && source.readyState !== EventSource.CLOSED)) return;
+    console.warn("Case stream unavailable, polling instead");
+    source.close();
+    stopPolling = startPolling(ngoEmail, handlers);
+  };
+
+  return () => {
+    source.close();
+    stopPolling?.();
+  };
+}
+
+let audioContext: AudioContext | null = null;
+
+// Short two-tone alert built with Web Audio, so no sound asset is needed.
+// Browsers only allow it after a user gesture on the page.
+export function playCriticalAlert() {
+  try {
+    audioContext = audioContext || new AudioContext();
+    const ctx = audioContext;
+    [880, 660, 880].forEach((freq, i) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      const start = ctx.currentTime + i * 0.18;
+      osc.frequency.value = freq;
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.16);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(start);
+      osc.stop(start + 0.16);
+    });
+  } catch (err) {
+    console.warn("Alert sound unavailable", err);
+  }
+}
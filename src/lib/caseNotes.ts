@@ -0,0 +1,57 @@
+// Notes and treatment log kept by the NGO handling a case
+// Entries are free text plus optional structured fields depending on the
+// kind (vet, medication + dosage, cost). The summary helpers are shared by
+// the case detail page and, without costs, the adoption listings.
+
+import { CaseNoteRecord, TreatmentSummary } from "./apiTypes";
+
+export const NOTE_KINDS = [
+  { value: "note", label: "Note" },
+  { value: "vet_visit", label: "Vet visit" },
+  { value: "medication", label: "Medication" },
+  { value: "treatment", label: "Treatment" },
+] as const;
+
+export type NoteKind = (typeof NOTE_KINDS)[number]["value"];
+
+export function noteKindLabel(kind?: string) {
+  return NOTE_KINDS.find((k) => k.value === kind)?.label || "Note";
+}
+
+export function summarizeNotes(notes: CaseNoteRecord[]): TreatmentSummary {
+  const medications = new Set<string>();
+  let vetVisits = 0;
+  let treatments = 0;
+  let totalCost = 0;
+  let last: string | undefined;
+
+  for (const n of notes) {
+    if (n.kind === "vet_visit") vetVisits++;
+    if (n.kind === "treatment") treatments++;
+    if (n.kind === "medication" && n.medication) medications.add(n.medication.trim());
+    const cost = Number(n.cost);
+    if (Number.isFinite(cost) && cost > 0) totalCost += cost;
+    if (n.kind !== "note" && n.created_at && (!last || n.created_at > last)) last = n.created_at;
+  }
+
+  return {
+    vet_visits: vetVisits,
+    treatments,
+    medications: [...medications],
+    total_cost: totalCost,
+    last_treated_at: last,
+  };
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+// Short lines for display, e.g. ["2 vet visits", "Medication: Ivermectin"]
+export function treatmentHighlights(summary?: TreatmentSummary | null, options: { includeCost?: boolean } = {}): string[] {
+  if (!summary) return [];
+  const lines: string[] = [];
+  if (summary.vet_visits) lines.push(plural(summary.vet_visits, "vet visit"));
+  if (summary.treatments) lines.push(plural(summary.treatments, "treatment"));
+  if (summary.medications && summary.medications.length > 0) lines.push(`Medication: ${summary.medications.join(", ")}`);
+  if (options.includeCost && summary.total_cost) lines.push(`₹${summary.total_cost.toLocaleString("en-IN")} spent`);
+  return lines;
+}
@@ -0,0 +1,34 @@
+// How a rescue ended
+// Every case is closed with one of these outcomes (PATCH /ngo-cases/{id}
+// with status "completed" and outcome). Cases closed before outcomes existed
+// have none and are reported as "Not recorded".
+
+export const CASE_OUTCOMES = [
+  { value: "treated_released", label: "Treated & released", className: "bg-green-100 text-green-800 border-green-200" },
+  { value: "sheltered", label: "Sheltered", className: "bg-teal-100 text-teal-800 border-teal-200" },
+  { value: "transferred_to_vet", label: "Transferred to vet", className: "bg-sky-100 text-sky-800 border-sky-200" },
+  { value: "deceased", label: "Deceased", className: "bg-gray-200 text-gray-800 border-gray-300" },
+  { value: "not_found", label: "Not found", className: "bg-amber-100 text-amber-800 border-amber-200" },
+  { value: "false_report", label: "False report", className: "bg-rose-100 text-rose-800 border-rose-200" },
+] as const;
+
+export type CaseOutcome = (typeof CASE_OUTCOMES)[number]["value"];
+
+export const NO_OUTCOME = "none";
+
+export function outcomeInfo(outcome?: string | null) {
+  return CASE_OUTCOMES.find((o) => o.value === outcome);
+}
+
+export function outcomeLabel(outcome?: string | null) {
+  return outcomeInfo(outcome)?.label || "Not recorded";
+}
+
+export function countOutcomes(outcomes: (string | undefined)[]) {
+  const counts: Record<string, number> = {};
+  for (const o of outcomes) {
+    const key = outcomeInfo(o) ? (o as string) : NO_OUTCOME;
+    counts[key] = (counts[key] || 0) + 1;
+  }
+  return counts;
+}
@@ -0,0 +1,75 @@
+// Response-time targets per severity
+// A case first has to be claimed within its claim SLA (counted from the
+// report), then closed within its resolve SLA (counted from the claim). Both
+// can be overridden per severity with "Severity:minutes" lists, e.g.
+// NEXT_PUBLIC_SLA_CLAIM_MIN="Critical:10,High:45".
+
+import { SEVERITY_LEVELS, Severity } from "./severityScoring";
+
+const DEFAULT_CLAIM_MIN: Record<Severity, number> = { Critical: 15, High: 60, Medium: 240, Low: 1440 };
+const DEFAULT_RESOLVE_MIN: Record<Severity, number> = { Critical: 360, High: 1440, Medium: 4320, Low: 10080 };
+
+function parseOverrides(value: string | undefined, defaults: Record<Severity, number>) {
+  const limits = { ...defaults };
+  for (const pair of (value || "").split(",")) {
+    const [severity, minutes] = pair.split(":").map((p) => p.trim());
+    if (severity in limits && Number(minutes) > 0) limits[severity as Severity] = Number(minutes);
+  }
+  return limits;
+}
+
+export const CLAIM_SLA_MIN = parseOverrides(process.env.NEXT_PUBLIC_SLA_CLAIM_MIN, DEFAULT_CLAIM_MIN);
+export const RESOLVE_SLA_MIN = parseOverrides(process.env.NEXT_PUBLIC_SLA_RESOLVE_MIN, DEFAULT_RESOLVE_MIN);
+
+// share of the SLA after which a case is flagged as due soon
+const WARNING_SHARE = 0.75;
+
+export type SlaState = "ok" | "warning" | "overdue";
+
+export interface SlaStatus {
+  // which clock is running: waiting for a claim, or claimed and not yet closed
+  phase: "claim" | "resolve";
+  state: SlaState;
+  elapsedMs: number;
+  limitMs: number;
+}
+
+const isClosed = (status?: string) => ["completed", "resolved", "closed"].includes(String(status || "").toLowerCase());
+
+// null for closed cases and cases without a usable report time
+export function slaStatus(
+  c: { severity?: string; status?: string; reportedAt?: string; claimedAt?: string },
+  now = Date.now()
+): SlaStatus | null {
+  if (isClosed(c.status)) return null;
+  const severity = (SEVERITY_LEVELS as readonly string[]).includes(String(c.severity)) ? (c.severity as Severity) : "Medium";
+  const claimed = c.claimedAt ? Date.parse(c.claimedAt) : NaN;
+  const waitingForClaim = String(c.status || "New") === "New" || Number.isNaN(claimed);
+  const start = waitingForClaim ? Date.parse(String(c.reportedAt)) : claimed;
+  if (Number.isNaN(start)) return null;
+
+  const limitMs = (waitingForClaim ? CLAIM_SLA_MIN : RESOLVE_SLA_MIN)[severity] * 60_000;
+  const elapsedMs = Math.max(0, now - start);
+  return {
+    phase: waitingForClaim ? "claim" : "resolve",
+    state: elapsedMs >= limitMs ? "overdue" : elapsedMs >= limitMs * WARNING_SHARE ? "warning" : "ok",
+    elapsedMs,
+    limitMs,
+  };
+}
+
+// "45m", "3h 5m", "2d 4h"
+export function formatDuration(ms: number) {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
+// Elapsed time since an ISO timestamp, or null when it does not parse
+export function timeSince(value: string | undefined, now = Date.now()) {
+  const t = value ? Date.parse(value) : NaN;
+  return Number.isNaN(t) ? null : formatDuration(Math.max(0, now - t));
+}
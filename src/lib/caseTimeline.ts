@@ -0,0 +1,77 @@
+// Activity timeline for the NGO case detail page
+// The backend keeps an event log per case (GET/POST /cases/{id}/events). Cases
+// created before the log existed only carry timestamps on the case and its
+// assignment, so those are turned into events as well; a logged event always
+// wins over the derived one of the same type.
+
+import { api } from "./apiClient";
+import { AdoptionRecord, CaseEventRecord, CaseRecord } from "./apiTypes";
+
+export const CASE_EVENT_TYPES = [
+  { value: "reported", label: "Reported" },
+  { value: "claimed", label: "Claimed" },
+  { value: "released", label: "Released" },
+  { value: "transfer_requested", label: "Transfer requested" },
+  { value: "transfer_declined", label: "Transfer declined" },
+  { value: "escalated", label: "Escalated" },
+  { value: "severity_changed", label: "Severity changed" },
+  { value: "transferred", label: "Handed over" },
+  { value: "en_route", label: "Team en route" },
+  { value: "arrived", label: "Arrived on site" },
+  { value: "picked_up", label: "Animal picked up" },
+  { value: "treated", label: "Treated" },
+  { value: "completed", label: "Rescue completed" },
+  { value: "pushed_for_adoption", label: "Put up for adoption" },
+  { value: "adopted", label: "Adopted" },
+] as const;
+
+export type CaseEventType = (typeof CASE_EVENT_TYPES)[number]["value"];
+
+export interface TimelineEvent {
+  type: string;
+  label: string;
+  at: string;
+  actor?: string;
+  note?: string;
+  // reconstructed from case fields rather than read from the event log
+  derived?: boolean;
+}
+
+export function caseEventLabel(type: string) {
+  return CASE_EVENT_TYPES.find((t) => t.value === type)?.label || type.replace(/_/g, " ");
+}
+
+const str = (v: unknown) => (v === undefined || v === null || v === "" ? undefined : String(v));
+
+export function buildCaseTimeline(c: CaseRecord, events: CaseEventRecord[], adoption?: AdoptionRecord | null): TimelineEvent[] {
+  const logged: TimelineEvent[] = events.map((e) => ({
+    type: e.type,
+    label: caseEventLabel(e.type),
+    at: e.at,
+    actor: e.actor,
+    note: e.note,
+  }));
+
+  const holder = str(c.claimed_by) || str(c.claimed_by_email);
+  const candidates: [CaseEventType, string | undefined, string | undefined][] = [
+    ["reported", str(c.created_at), str(c.contact_name)],
+    ["claimed", str(c.taken_at), holder],
+    ["completed", str(c.completed_at), holder],
+    ["pushed_for_adoption", str(adoption?.created_at), str(adoption?.ngo_email)],
+    ["adopted", str(adoption?.adopted_at), undefined],
+  ];
+  const derived: TimelineEvent[] = candidates
+    .filter(([type, at]) => at && !logged.some((e) => e.type === type))
+    .map(([type, at, actor]) => ({ type, label: caseEventLabel(type), at: at as string, actor, derived: true }));
+
+  return [...logged, ...derived].sort((a, b) => (Date.parse(a.at) || 0) - (Date.parse(b.at) || 0));
+}
+
+// Best effort: a failed log write must never block the action it describes
+export async function logCaseEvent(caseId: string, type: CaseEventType, actor?: string | null, note?: string) {
+  try {
+    await api.cases.logEvent(caseId, { type, at: new Date().toISOString(), actor: actor || undefined, note });
+  } catch (err) {
+    console.warn(`Could not log ${type} for case ${caseId}`, err);
+  }
+}
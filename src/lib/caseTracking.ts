@@ -0,0 +1,104 @@
+// Public case tracking for reporters
+// The backend returns a tracking code with every report; GET /track/{code}
+// exposes a reduced view of the case that never includes contact details.
+
+import { ApiError, api } from "./apiClient";
+
+const STORAGE_KEY = "reportTrackingCodes";
+
+export interface PublicCaseStatus {
+  trackingCode: string;
+  status: string;
+  severity?: string;
+  location?: string;
+  reportedAt?: string;
+  ngoName?: string;
+  assignedAt?: string;
+  etaMinutes?: number;
+  completedAt?: string;
+  adoptionStatus?: string;
+  adoptedAt?: string;
+}
+
+export interface TimelineStep {
+  key: "reported" | "assigned" | "in_progress" | "completed" | "adopted";
+  label: string;
+  done: boolean;
+  at?: string;
+}
+
+const str = (v: unknown) => (v === undefined || v === null || v === "" ? undefined : String(v));
+
+// Only whitelisted fields are copied so reporter/NGO contact data can't leak through
+export function toPublicCaseStatus(code: string, body: Record<string, unknown>): PublicCaseStatus {
+  const eta = Number(body.eta_minutes ?? body.ngo_eta_minutes);
+  return {
+    trackingCode: str(body.tracking_code) || code,
+    status: str(body.status) || "New",
+    severity: str(body.severity),
+    location: str(body.location),
+    reportedAt: str(body.created_at),
+    ngoName: str(body.ngo_name),
+    assignedAt: str(body.taken_at),
+    etaMinutes: Number.isFinite(eta) && eta > 0 ? eta : undefined,
+    completedAt: str(body.completed_at),
+    adoptionStatus: str(body.adoption_status),
+    adoptedAt: str(body.adopted_at),
+  };
+}
+
+// Tracking code from a /report-case response. Older backends only send
+// case_id, which is never used instead: internal ids can be guessed, and the
+// public tracking page must not be enumerable.
+export function trackingCodeFrom(data: Record<string, unknown>): string | null {
+  return str(data.tracking_code) || null;
+}
+
+export async function fetchPublicCaseStatus(code: string): Promise<PublicCaseStatus | null> {
+  try {
+    return toPublicCaseStatus(code, await api.cases.track(code));
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 404) return null;
+    throw err;
+  }
+}
+
+export function buildTimeline(c: PublicCaseStatus): TimelineStep[] {
+  const status = c.status.toLowerCase();
+  const completed = ["completed", "resolved", "closed"].includes(status) || Boolean(c.completedAt);
+  const adopted = c.adoptionStatus === "adopted";
+  const inProgress = completed || ["in progress", "en route", "on site"].includes(status);
+  const assigned = inProgress || Boolean(c.ngoName || c.assignedAt);
+
+  const steps: TimelineStep[] = [
+    { key: "reported", label: "Reported", done: true, at: c.reportedAt },
+    { key: "assigned", label: c.ngoName ? `Assigned to ${c.ngoName}` : "Assigned to an NGO", done: assigned, at: c.assignedAt },
+    { key: "in_progress", label: "Rescue in progress", done: inProgress },
+    { key: "completed", label: "Rescue completed", done: completed, at: c.completedAt },
+  ];
+  if (c.adoptionStatus) {
+    steps.push({ key: "adopted", label: adopted ? "Adopted" : "Up for adoption", done: adopted, at: c.adoptedAt });
+  }
+  return steps;
+}
+
+// ---- Codes remembered on this device ----
+
+export function listRememberedTrackingCodes(): string[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function rememberTrackingCode(code: string) {
+  try {
+    const codes = [code, ...listRememberedTrackingCodes().filter((c) => c !== code)].slice(0, 20);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(codes));
+  } catch {
+    // ignore storage errors (e.g. private mode)
+  }
+}
@@ -0,0 +1,48 @@
+// Handing a case over to another NGO
+// The holder offers the case to a chosen NGO with a reason; it stays with the
+// holder until the receiving NGO accepts. Critical cases that nobody accepts
+// (an unanswered offer, or an unclaimed report) are escalated by the backend
+// to the next-nearest NGO after ESCALATION_TIMEOUT_MS, from a scheduled job.
+
+import { CaseTransferRecord, NgoRecord } from "./apiTypes";
+import { haversineKm, toLatLng } from "./geo";
+import { distanceOutsideKm, ngoServiceArea } from "./serviceArea";
+
+export const ESCALATION_TIMEOUT_MS = (Number(process.env.NEXT_PUBLIC_ESCALATION_TIMEOUT_MIN) || 15) * 60_000;
+
+export interface TransferTarget {
+  ngo: NgoRecord;
+  // undefined when the NGO has no coordinates on file
+  distanceKm?: number;
+  inServiceArea: boolean;
+}
+
+// NGOs that could take a case at `position`: those whose service area covers
+// it first, then nearest first; NGOs without a location come last.
+export function rankTransferTargets(
+  ngos: NgoRecord[],
+  position: { lat: number; lng: number } | null,
+  excludeEmails: (string | undefined)[] = []
+): TransferTarget[] {
+  const excluded = excludeEmails.filter(Boolean).map((e) => String(e).toLowerCase());
+  return ngos
+    .filter((ngo) => ngo.email && !excluded.includes(String(ngo.email).toLowerCase()))
+    .map((ngo) => {
+      const location = toLatLng(ngo.latitude, ngo.longitude);
+      const d = position && location ? haversineKm(position, location) : undefined;
+      const area = ngoServiceArea(ngo);
+      return { ngo, distanceKm: d, inServiceArea: Boolean(position && area && distanceOutsideKm(area, position) === 0) };
+    })
+    .sort(
+      (a, b) =>
+        Number(b.inServiceArea) - Number(a.inServiceArea) ||
+        (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity)
+    );
+}
+
+// When an unanswered offer on a critical case moves on to the next NGO
+export function escalatesAt(transfer: CaseTransferRecord, severity?: string): number | null {
+  if (transfer.status !== "pending" || severity !== "Critical") return null;
+  const requested = Date.parse(transfer.requested_at);
+  return Number.isNaN(requested) ? null : requested + ESCALATION_TIMEOUT_MS;
+}
@@ -0,0 +1,84 @@
+// Duplicate report detection
+// Before a new report is posted we look for recent open cases close to the same
+// spot so a second passer-by can add to the existing case instead of opening
+// a parallel one.
+
+import { api, isApiConfigured } from "./apiClient";
+import { haversineMeters } from "./geo";
+
+const DUPLICATE_RADIUS_M = Number(process.env.NEXT_PUBLIC_DUPLICATE_RADIUS_M) || 150;
+const DUPLICATE_WINDOW_HOURS = Number(process.env.NEXT_PUBLIC_DUPLICATE_WINDOW_HOURS) || 12;
+
+export interface PossibleDuplicate {
+  caseId: string;
+  description: string;
+  location: string;
+  status: string;
+  severity?: string;
+  species?: string;
+  thumbnailUrl?: string;
+  createdAt?: string;
+  distanceMeters: number;
+}
+
+
+const CLOSED_STATUSES = ["completed", "resolved", "closed", "dismissed"];
+
+/**
+ * Open cases reported within the duplicate radius and time window of the
+ * given point, nearest first. Returns [] when the lookup fails so a flaky
+ * check never blocks a report.
+ */
+export async function findPossibleDuplicates(lat: number, lng: number): Promise<PossibleDuplicate[]> {
+  if (!isApiConfigured()) return [];
+  try {
+    const items = await api.cases.recent({
+      lat,
+      lng,
+      radius_m: DUPLICATE_RADIUS_M,
+      hours: DUPLICATE_WINDOW_HOURS,
+    });
+    const since = Date.now() - DUPLICATE_WINDOW_HOURS * 3600 * 1000;
+
+    return items
+      .map((c) => {
+        const caseLat = Number(c.latitude);
+        const caseLng = Number(c.longitude);
+        if (!Number.isFinite(caseLat) || !Number.isFinite(caseLng)) return null;
+        return {
+          caseId: String(c.case_id || c.id || ""),
+          description: String(c.description || ""),
+          location: String(c.location || ""),
+          status: String(c.status || "New"),
+          severity: c.severity ? String(c.severity) : undefined,
+          species: c.species ? String(c.species) : undefined,
+          thumbnailUrl: c.image_presigned_url ? String(c.image_presigned_url) : undefined,
+          createdAt: c.created_at ? String(c.created_at) : undefined,
+          distanceMeters: haversineMeters({ lat, lng }, { lat: caseLat, lng: caseLng }),
+        } as PossibleDuplicate;
+      })
+      .filter((d): d is PossibleDuplicate => {
+        if (!d || !d.caseId || d.distanceMeters > DUPLICATE_RADIUS_M) return false;
+        if (CLOSED_STATUSES.includes(d.status.toLowerCase())) return false;
+        const created = d.createdAt ? Date.parse(d.createdAt) : NaN;
+        return Number.isNaN(created) || created >= since;
+      })
+      .sort((a, b) => a.distanceMeters - b.distanceMeters);
+  } catch (err) {
+    console.warn("Duplicate lookup error", err);
+    return [];
+  }
+}
+
+// Add the reporter's photos and notes to an existing case
+export function attachToCase(caseId: string, payload: Record<string, unknown>) {
+  return api.cases.attach(caseId, {
+    images_base64: payload.images_base64,
+    video_base64: payload.video_base64,
+    video_content_type: payload.video_content_type,
+    description: payload.description,
+    contact_name: payload.contact_name,
+    contact_phone: payload.contact_phone,
+    injury_types: payload.injury_types,
+  });
+}
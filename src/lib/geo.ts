@@ -0,0 +1,35 @@
+// Distances between coordinates
+// The one haversine implementation in the app: the dashboard, tracking,
+// duplicate detection, transfers and service areas all measure with it.
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export const EARTH_RADIUS_M = 6_371_000;
+
+// Great-circle distance in metres
+export function haversineMeters(a: LatLng, b: LatLng): number {
+  const toRad = (v: number) => (v * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+export const haversineKm = (a: LatLng, b: LatLng) => haversineMeters(a, b) / 1000;
+
+// Coordinates from record fields that may be numbers, numeric strings or missing
+export function toLatLng(lat: unknown, lng: unknown): LatLng | null {
+  if (lat === undefined || lat === null || lat === "" || lng === undefined || lng === null || lng === "") return null;
+  const point = { lat: Number(lat), lng: Number(lng) };
+  return Number.isFinite(point.lat) && Number.isFinite(point.lng) ? point : null;
+}
+
+// "850 m", "3.2 km", "27 km"
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters / 10) * 10} m`;
+  const km = meters / 1000;
+  return km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+}
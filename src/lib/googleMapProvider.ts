@@ -0,0 +1,151 @@
+// Google Maps implementation of the map provider interface
+
+import { loadGoogleMaps } from "./googleMaps";
+import {
+  AREA_COLOR,
+  HEATMAP_COLOR,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  MapHandle,
+  MapMarker,
+  MapOptions,
+  MapProvider,
+  PATH_COLOR,
+  clusterBadgeSize,
+} from "./mapProvider";
+
+function markerIcon(g: typeof google, m: MapMarker): google.maps.Symbol {
+  if (m.kind === "cluster") {
+    return {
+      path: g.maps.SymbolPath.CIRCLE,
+      // Symbol scale is the radius in px
+      scale: clusterBadgeSize(m.weight) / 2,
+      fillColor: m.color,
+      fillOpacity: 0.9,
+      strokeColor: "#ffffff",
+      strokeWeight: 3,
+    };
+  }
+  if (m.kind === "vertex") {
+    return { path: g.maps.SymbolPath.CIRCLE, scale: 6, fillColor: "#ffffff", fillOpacity: 1, strokeColor: m.color, strokeWeight: 3 };
+  }
+  const base = m.kind === "base";
+  return {
+    path: base ? g.maps.SymbolPath.BACKWARD_CLOSED_ARROW : g.maps.SymbolPath.CIRCLE,
+    scale: base ? 6 : m.label ? 11 : 9,
+    fillColor: m.color,
+    fillOpacity: 1,
+    strokeColor: "#ffffff",
+    strokeWeight: 2,
+  };
+}
+
+export const googleMapProvider: MapProvider = {
+  name: "google",
+  async create(container: HTMLElement, options: MapOptions): Promise<MapHandle> {
+    const g = await loadGoogleMaps();
+    const map = new g.maps.Map(container, {
+      center: options.center,
+      zoom: options.zoom,
+      minZoom: MIN_ZOOM,
+      maxZoom: MAX_ZOOM,
+      streetViewControl: false,
+      mapTypeControl: false,
+      // the view draws its own zoom buttons so both providers look the same
+      zoomControl: false,
+      fullscreenControl: false,
+    });
+    let markers: google.maps.Marker[] = [];
+    // no visualization library: overlapping translucent circles read as a heatmap
+    let heat: google.maps.Circle[] = [];
+    let area: google.maps.Polygon | null = null;
+    let path: google.maps.Polyline | null = null;
+    map.addListener("zoom_changed", () => options.onViewChange?.(map.getZoom() ?? options.zoom));
+    map.addListener("click", (e: google.maps.MapMouseEvent) => {
+      if (e.latLng) options.onMapClick?.({ lat: e.latLng.lat(), lng: e.latLng.lng() });
+    });
+
+    return {
+      setMarkers(next) {
+        markers.forEach((m) => m.setMap(null));
+        markers = next.map((m) => {
+          const marker = new g.maps.Marker({
+            position: m.position,
+            map,
+            title: m.title,
+            icon: markerIcon(g, m),
+            label:
+              m.label || m.count
+                ? { text: m.label || String(m.count), color: "#ffffff", fontWeight: "bold", fontSize: "12px" }
+                : undefined,
+            zIndex: m.kind === "base" ? 1 : m.kind === "case" || !m.kind ? 2 : 3,
+          });
+          if (options.onMarkerClick) marker.addListener("click", () => options.onMarkerClick?.(m.id));
+          return marker;
+        });
+      },
+      setHeatmap(points) {
+        heat.forEach((c) => c.setMap(null));
+        heat = points.map(
+          (p) =>
+            new g.maps.Circle({
+              map,
+              center: p.position,
+              radius: 200 + 100 * p.weight,
+              fillColor: HEATMAP_COLOR,
+              fillOpacity: 0.12 + 0.04 * p.weight,
+              strokeWeight: 0,
+              clickable: false,
+            })
+        );
+      },
+      setArea(outline) {
+        area?.setMap(null);
+        area = outline
+          ? new g.maps.Polygon({
+              map,
+              paths: outline,
+              strokeColor: AREA_COLOR,
+              strokeWeight: 2,
+              fillColor: AREA_COLOR,
+              fillOpacity: 0.12,
+              clickable: false,
+            })
+          : null;
+      },
+      setPath(points) {
+        path?.setMap(null);
+        path = points
+          ? new g.maps.Polyline({ map, path: points, strokeColor: PATH_COLOR, strokeOpacity: 0.8, strokeWeight: 4, clickable: false })
+          : null;
+      },
+      fitTo(points) {
+        if (points.length === 0) return;
+        if (points.length === 1) {
+          map.setCenter(points[0]);
+          map.setZoom(15);
+          return;
+        }
+        const bounds = new g.maps.LatLngBounds();
+        points.forEach((p) => bounds.extend(p));
+        map.fitBounds(bounds, 40);
+      },
+      zoomIn() {
+        map.setZoom(Math.min(MAX_ZOOM, (map.getZoom() ?? options.zoom) + 1));
+      },
+      zoomOut() {
+        map.setZoom(Math.max(MIN_ZOOM, (map.getZoom() ?? options.zoom) - 1));
+      },
+      destroy() {
+        markers.forEach((m) => m.setMap(null));
+        heat.forEach((c) => c.setMap(null));
+        area?.setMap(null);
+        path?.setMap(null);
+        markers = [];
+        heat = [];
+        g.maps.event.clearInstanceListeners(map);
+        container.innerHTML = "";
+      },
+    };
+  },
+};
@@ -0,0 +1,56 @@
+// Google Maps JS loader shared by pages that render a map
+// Uses the same script id as the tracking page so the API is only injected once.
+
+const GOOGLE_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+const SCRIPT_ID = "google-maps-script";
+
+let loading: Promise<typeof google> | null = null;
+
+function loadedGoogle() {
+  if (typeof window === "undefined") return undefined;
+  const g = (window as Window & { google?: typeof google }).google;
+  return g && g.maps ? g : undefined;
+}
+
+export function loadGoogleMaps(): Promise<typeof google> {
+  const existing = loadedGoogle();
+  if (existing) return Promise.resolve(existing);
+  if (loading) return loading;
+
+  loading = new Promise<typeof google>((resolve, reject) => {
+    if (!GOOGLE_KEY) {
+      reject(new Error("Google Maps API key is not configured (NEXT_PUBLIC_GOOGLE_MAPS_API_KEY)."));
+      return;
+    }
+
+    // another page already injected the script; wait for it to finish
+    if (document.getElementById(SCRIPT_ID)) {
+      const t = setInterval(() => {
+        const g = loadedGoogle();
+        if (g) {
+          clearInterval(t);
+          resolve(g);
+        }
+      }, 200);
+      return;
+    }
+
+    const script = document.createElement("script");
+    script.id = SCRIPT_ID;
+    script.src = `https://maps.googleapis.com/maps/api/js?key=${GOOGLE_KEY}&libraries=places`;
+    script.async = true;
+    script.defer = true;
+    script.onload = () => {
+      const g = loadedGoogle();
+      if (g) resolve(g);
+      else reject(new Error("Google Maps is not available."));
+    };
+    script.onerror = () => reject(new Error("Failed to load Google Maps script."));
+    document.head.appendChild(script);
+  });
+  // allow a later retry if this attempt failed
+  loading.catch(() => {
+    loading = null;
+  });
+  return loading;
+}
@@ -0,0 +1,195 @@
+// Client-side image preparation for report uploads
+// Phone photos are resized and re-encoded before they are base64'd into the
+// report payload. Re-encoding through a canvas also drops every EXIF tag
+// (camera, timestamps, GPS), so only pixels leave the device; GPS is read
+// first so the report page can offer it as the case location.
+
+const MAX_DIMENSION = Number(process.env.NEXT_PUBLIC_IMAGE_MAX_DIMENSION) || 1600;
+const QUALITY = Number(process.env.NEXT_PUBLIC_IMAGE_QUALITY) || 0.8;
+
+export interface ImageProcessingOptions {
+  maxDimension?: number;
+  // JPEG quality, 0-1
+  quality?: number;
+}
+
+export interface ProcessedImage {
+  dataUrl: string;
+  contentType: string;
+  width: number;
+  height: number;
+  originalBytes: number;
+  processedBytes: number;
+  gps: { latitude: number; longitude: number } | null;
+}
+
+// ---- EXIF (JPEG APP1) ----
+
+const TAG_GPS_IFD = 0x8825;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LNG_REF = 0x0003;
+const TAG_GPS_LNG = 0x0004;
+
+// byte size of each TIFF field type (BYTE, ASCII, SHORT, LONG, RATIONAL, ...)
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+function readIfd(view: DataView, tiffStart: number, offset: number, little: boolean) {
+  const entries = new Map<number, { type: number; count: number; valueOffset: number }>();
+  if (offset + 2 > view.byteLength) return entries;
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    // values that do not fit in 4 bytes live at an offset from the TIFF header
+    const size = (TYPE_SIZES[type] ?? 1) * n;
+    const valueOffset = size > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    entries.set(tag, { type, count: n, valueOffset });
+  }
+  return entries;
+}
+
+function readDegrees(view: DataView, offset: number, little: boolean) {
+  const rational = (o: number) => {
+    const den = view.getUint32(o + 4, little);
+    return den ? view.getUint32(o, little) / den : 0;
+  };
+  return rational(offset) + rational(offset + 8) / 60 + rational(offset + 16) / 3600;
+}
+
+/**
+ * Extract GPS coordinates from a JPEG's EXIF block, or null when absent.
+ */
+export function readExifGps(buffer: ArrayBuffer): { latitude: number; longitude: number } | null {
+  try {
+    const view = new DataView(buffer);
+    if (view.getUint16(0) !== 0xffd8) return null;
+
+    let offset = 2;
+    while (offset + 4 < view.byteLength) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+      // APP1 with "Exif\0\0"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiffStart = offset + 10;
+        const little = view.getUint16(tiffStart) === 0x4949;
+        const ifd0 = readIfd(view, tiffStart, tiffStart + view.getUint32(tiffStart + 4, little), little);
+        const gpsPtr = ifd0.get(TAG_GPS_IFD);
+        if (!gpsPtr) return null;
+
+        const gps = readIfd(view, tiffStart, tiffStart + view.getUint32(gpsPtr.valueOffset, little), little);
+        const lat = gps.get(TAG_GPS_LAT);
+        const lng = gps.get(TAG_GPS_LNG);
+        if (!lat || !lng) return null;
+
+        let latitude = readDegrees(view, lat.valueOffset, little);
+        let longitude = readDegrees(view, lng.valueOffset, little);
+        const latRef = gps.get(TAG_GPS_LAT_REF);
+        const lngRef = gps.get(TAG_GPS_LNG_REF);
+        if (latRef && String.fromCharCode(view.getUint8(latRef.valueOffset)) === "S") latitude = -latitude;
+        if (lngRef && String.fromCharCode(view.getUint8(lngRef.valueOffset)) === "W") longitude = -longitude;
+
+        if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+        if (latitude === 0 && longitude === 0) return null;
+        return { latitude, longitude };
+      }
+      // stop at start-of-scan; no metadata after it
+      if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+      offset += 2 + length;
+    }
+  } catch {
+    // malformed EXIF - treat as missing
+  }
+  return null;
+}
+
+// ---- Resize / re-encode ----
+
+function blobToDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Decode with EXIF orientation applied so the pixels come out upright
+async function decode(file: File): Promise<ImageBitmap | HTMLImageElement> {
+  if (typeof createImageBitmap === "function") {
+    try {
+      return await createImageBitmap(file, { imageOrientation: "from-image" });
+    } catch {
+      // fall through to <img>, which browsers also orient from EXIF
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    return await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error(`Could not decode ${file.name}`));
+      img.src = url;
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Resize a photo to fit within maxDimension, re-encode it as JPEG and return
+ * it as a data URL together with any EXIF GPS position found in the original.
+ * onProgress receives 0-100 as the stages complete.
+ */
+export async function processImage(
+  file: File,
+  options: ImageProcessingOptions = {},
+  onProgress?: (percent: number) => void
+): Promise<ProcessedImage> {
+  const maxDimension = options.maxDimension ?? MAX_DIMENSION;
+  const quality = options.quality ?? QUALITY;
+
+  onProgress?.(10);
+  const gps = readExifGps(await file.arrayBuffer());
+  onProgress?.(30);
+
+  const source = await decode(file);
+  onProgress?.(60);
+
+  const srcWidth = "naturalWidth" in source ? source.naturalWidth : source.width;
+  const srcHeight = "naturalHeight" in source ? source.naturalHeight : source.height;
+  const scale = Math.min(1, maxDimension / Math.max(srcWidth, srcHeight));
+  const width = Math.round(srcWidth * scale);
+  const height = Math.round(srcHeight * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  // JPEG has no alpha; paint transparent PNGs onto white instead of black
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  if ("close" in source) source.close();
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", quality));
+  if (!blob) throw new Error("Failed to encode image");
+  onProgress?.(90);
+
+  const dataUrl = await blobToDataUrl(blob);
+  onProgress?.(100);
+
+  return {
+    dataUrl,
+    contentType: "image/jpeg",
+    width,
+    height,
+    originalBytes: file.size,
+    processedBytes: blob.size,
+    gps,
+  };
+}
@@ -0,0 +1,66 @@
+// Grid clustering of case markers for the dashboard map
+// Points are bucketed by screen cell at the current zoom, so clusters split
+// apart as the user zooms in. Each cluster carries a severity weight (a
+// Critical case counts as much as four Low ones) that sizes its badge, and
+// takes the colour of its most severe case.
+
+import { LatLng, MAX_ZOOM, project } from "./mapProvider";
+import { severityRank } from "./severityScoring";
+
+export const SEVERITY_WEIGHTS: Record<string, number> = { Critical: 4, High: 3, Medium: 2, Low: 1 };
+
+// from this zoom on every case gets its own pin
+const CLUSTER_MAX_ZOOM = MAX_ZOOM - 2;
+const CELL_PX = 64;
+
+export interface ClusterInput {
+  id: string;
+  position: LatLng;
+  severity?: string;
+}
+
+export interface Cluster {
+  id: string;
+  position: LatLng;
+  memberIds: string[];
+  // most severe member
+  severity?: string;
+  weight: number;
+  // cases per severity
+  counts: Record<string, number>;
+}
+
+export const severityWeight = (severity?: string) => SEVERITY_WEIGHTS[String(severity)] || 1;
+
+export function clusterPoints(items: ClusterInput[], zoom: number): Cluster[] {
+  const cells = new Map<string, ClusterInput[]>();
+  for (const item of items) {
+    const p = project(item.position, zoom);
+    const key = zoom >= CLUSTER_MAX_ZOOM ? item.id : `${Math.floor(p.x / CELL_PX)}:${Math.floor(p.y / CELL_PX)}`;
+    cells.set(key, [...(cells.get(key) || []), item]);
+  }
+
+  return [...cells.values()].map((members) => {
+    const counts: Record<string, number> = {};
+    let weight = 0;
+    let lat = 0;
+    let lng = 0;
+    for (const m of members) {
+      const w = severityWeight(m.severity);
+      counts[String(m.severity || "Unknown")] = (counts[String(m.severity || "Unknown")] || 0) + 1;
+      weight += w;
+      lat += m.position.lat * w;
+      lng += m.position.lng * w;
+    }
+    const severity = members.map((m) => m.severity).sort((a, b) => severityRank(b) - severityRank(a))[0];
+    return {
+      id: members.length === 1 ? members[0].id : `cluster:${members.map((m) => m.id).sort().join(",")}`,
+      // pulled towards the more severe cases
+      position: { lat: lat / weight, lng: lng / weight },
+      memberIds: members.map((m) => m.id),
+      severity,
+      weight,
+      counts,
+    };
+  });
+}
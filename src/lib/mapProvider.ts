@@ -0,0 +1,127 @@
+// Map provider interface for the dashboard map
+// Pages draw through a MapHandle instead of talking to Google Maps directly,
+// so the same view works with Google (when a key is configured) or the
+// tile-free offline map (no key, no network, tests). NEXT_PUBLIC_MAP_PROVIDER
+// forces one or the other; by default Google is tried first and the offline
+// map takes over if it cannot load.
+
+import { LatLng } from "./geo";
+
+export type { LatLng };
+
+export interface MapMarker {
+  id: string;
+  position: LatLng;
+  color: string;
+  title?: string;
+  // the NGO's own base is drawn differently from case pins; vertices are
+  // the small corner handles of a service area being edited
+  kind?: "case" | "base" | "cluster" | "vertex";
+  // clusters: number of cases shown on the badge, and their severity weight (sets the size)
+  count?: number;
+  weight?: number;
+  // short text drawn on a pin, e.g. a stop number
+  label?: string;
+}
+
+// One report on the heatmap layer, weighted by severity
+export interface HeatPoint {
+  position: LatLng;
+  weight: number;
+}
+
+export interface MapOptions {
+  center: LatLng;
+  zoom: number;
+  onMarkerClick?: (id: string) => void;
+  // called with the new zoom level whenever it changes
+  onViewChange?: (zoom: number) => void;
+  // a click on the map itself, not on a marker
+  onMapClick?: (position: LatLng) => void;
+}
+
+export interface MapHandle {
+  setMarkers(markers: MapMarker[]): void;
+  // an empty list hides the layer
+  setHeatmap(points: HeatPoint[]): void;
+  // outline of a service area, drawn as a filled polygon; null hides it
+  setArea(outline: LatLng[] | null): void;
+  // a route drawn as a line; null hides it
+  setPath(path: LatLng[] | null): void;
+  // pan and zoom so every point is visible
+  fitTo(points: LatLng[]): void;
+  zoomIn(): void;
+  zoomOut(): void;
+  destroy(): void;
+}
+
+export interface MapProvider {
+  name: "google" | "offline";
+  create(container: HTMLElement, options: MapOptions): Promise<MapHandle>;
+}
+
+export const SEVERITY_MARKER_COLORS: Record<string, string> = {
+  Critical: "#DC2626",
+  High: "#F97316",
+  Medium: "#EAB308",
+  Low: "#16A34A",
+};
+export const BASE_MARKER_COLOR = "#19C2E6";
+export const HEATMAP_COLOR = "#DC2626";
+export const AREA_COLOR = "#19C2E6";
+export const PATH_COLOR = "#2563EB";
+
+// Diameter in px of a cluster badge: grows with the severity weight, within bounds
+export function clusterBadgeSize(weight = 1) {
+  return Math.round(28 + Math.min(24, Math.sqrt(weight) * 4));
+}
+
+// central Pune, only used until there is something to fit the view to
+export const DEFAULT_MAP_CENTER: LatLng = { lat: 18.5204, lng: 73.8567 };
+export const MIN_ZOOM = 3;
+export const MAX_ZOOM = 18;
+
+export function preferredMapProvider(): "google" | "offline" {
+  const forced = process.env.NEXT_PUBLIC_MAP_PROVIDER;
+  if (forced === "google" || forced === "offline") return forced;
+  return process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY ? "google" : "offline";
+}
+
+// ---- Web Mercator, in pixels at a given zoom (256px tiles) ----
+
+export function project({ lat, lng }: LatLng, zoom: number) {
+  const size = 256 * 2 ** zoom;
+  const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: ((lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+}
+
+export function unproject({ x, y }: { x: number; y: number }, zoom: number): LatLng {
+  const size = 256 * 2 ** zoom;
+  const lng = (x / size) * 360 - 180;
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return { lat: (180 / Math.PI) * Math.atan(Math.sinh(n)), lng };
+}
+
+// Highest zoom at which all points fit in a width × height viewport
+export function zoomToFit(points: LatLng[], width: number, height: number, padding = 40) {
+  if (points.length < 2) return 15;
+  for (let zoom = MAX_ZOOM; zoom > MIN_ZOOM; zoom--) {
+    const px = points.map((p) => project(p, zoom));
+    const w = Math.max(...px.map((p) => p.x)) - Math.min(...px.map((p) => p.x));
+    const h = Math.max(...px.map((p) => p.y)) - Math.min(...px.map((p) => p.y));
+    if (w <= width - 2 * padding && h <= height - 2 * padding) return zoom;
+  }
+  return MIN_ZOOM;
+}
+
+export function centerOf(points: LatLng[]): LatLng {
+  const lats = points.map((p) => p.lat);
+  const lngs = points.map((p) => p.lng);
+  return {
+    lat: (Math.min(...lats) + Math.max(...lats)) / 2,
+    lng: (Math.min(...lngs) + Math.max(...lngs)) / 2,
+  };
+}
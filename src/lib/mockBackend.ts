@@ -0,0 +1,576 @@
+// In-browser mock of the Nivaran backend
+// Enabled with NEXT_PUBLIC_MOCK_API=1: apiClient hands every request to
+// handleMockRequest instead of fetch. State is seeded from mockFixtures and
+// kept in localStorage (minus uploaded images) so a demo survives reloads;
+// call resetMockBackend() from the console to start over.
+//
+// Reports whose description contains "#invalid" are rejected like a photo
+// without an animal, to exercise the AI override flow. Critical cases are
+// escalated lazily, whenever a request comes in after the timeout has passed.
+
+import { summarizeNotes } from "./caseNotes";
+import { outcomeInfo } from "./caseOutcomes";
+import { ESCALATION_TIMEOUT_MS, rankTransferTargets } from "./caseTransfers";
+import { SEVERITY_LEVELS, Severity } from "./severityScoring";
+import { parseServiceArea } from "./serviceArea";
+import { CaseNoteRecord } from "./apiTypes";
+import { FAKE_USERS, MockState, placeholderImage, seedFixtures } from "./mockFixtures";
+
+const STORAGE_KEY = "nivaran:mock-backend";
+const LATENCY_MS = 250;
+
+type Row = Record<string, unknown>;
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+let state: MockState | null = null;
+// uploaded images by s3 key, memory only (too large for localStorage)
+const uploads = new Map<string, string>();
+
+function load(): MockState {
+  if (state) return state;
+  try {
+    const saved = typeof window !== "undefined" ? localStorage.getItem(STORAGE_KEY) : null;
+    state = saved ? (JSON.parse(saved) as MockState) : seedFixtures();
+  } catch {
+    state = seedFixtures();
+  }
+  // saved by an older version of the mock
+  state.events = state.events || [];
+  state.notes = state.notes || [];
+  state.transfers = state.transfers || [];
+  return state;
+}
+
+function save() {
+  try {
+    if (state && typeof window !== "undefined") localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (err) {
+    console.warn("Mock backend state not persisted", err);
+  }
+}
+
+export function resetMockBackend() {
+  state = seedFixtures();
+  uploads.clear();
+  save();
+}
+
+const ok = (body: unknown = { message: "ok" }): MockResponse => ({ status: 200, body });
+const fail = (status: number, error: string): MockResponse => ({ status, body: { error } });
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 5)}`;
+const sameEmail = (a: unknown, b: unknown) => String(a || "").toLowerCase() === String(b || "").toLowerCase();
+const isClosed = (status: unknown) => ["completed", "resolved", "closed"].includes(String(status || "").toLowerCase());
+
+function findCase(s: MockState, caseId: string) {
+  return s.cases.find((c) => c.case_id === caseId);
+}
+
+function ngoName(s: MockState, email: unknown) {
+  return String(s.ngos.find((n) => sameEmail(n.email, email))?.name || email || "");
+}
+
+function logEvent(s: MockState, caseId: unknown, type: string, actor?: unknown, note?: unknown) {
+  s.events.push({ case_id: caseId, type, at: new Date().toISOString(), actor: actor || undefined, note: note || undefined });
+}
+
+// The holder's login or any member login of the holding NGO
+function isOnCaseTeam(s: MockState, c: Row, email: string | null) {
+  if (!email || !c.claimed_by_email) return false;
+  if (sameEmail(c.claimed_by_email, email)) return true;
+  const ngo = s.ngos.find((n) => sameEmail(n.email, c.claimed_by_email));
+  return Array.isArray(ngo?.members) && ngo.members.some((m) => sameEmail(m, email));
+}
+
+const outcomeLabelFor = (outcome: unknown) => outcomeInfo(String(outcome || ""))?.label;
+
+// Make `email` the holder of the case, as a claim or an accepted handover
+function assignCase(s: MockState, c: Row, email: unknown) {
+  const ngo = s.ngos.find((n) => sameEmail(n.email, email));
+  c.status = "In Progress";
+  c.claimed_by = ngo?.name || email;
+  c.claimed_by_email = email;
+  c.version = (Number(c.version) || 1) + 1;
+  const assignment = s.ngoCases.find((a) => a.case_id === c.case_id);
+  const fields = { ngo_id: ngo?.ngo_id || "unknown", ngo_email: email, taken_at: new Date().toISOString() };
+  if (assignment) Object.assign(assignment, fields);
+  else s.ngoCases.push({ case_id: c.case_id, status: "In Progress", ...fields });
+}
+
+// Open offers die with the claim they were about
+function cancelTransfers(s: MockState, caseId: unknown) {
+  for (const t of s.transfers) {
+    if (t.case_id === caseId && t.status === "pending") Object.assign(t, { status: "cancelled", responded_at: new Date().toISOString() });
+  }
+}
+
+function offerToNextNgo(s: MockState, c: Row, from: Row | undefined) {
+  const offered = s.transfers.filter((t) => t.case_id === c.case_id).map((t) => String(t.to_email));
+  const position = { lat: Number(c.latitude), lng: Number(c.longitude) };
+  const next = rankTransferTargets(s.ngos, Number.isFinite(position.lat) ? position : null, [
+    ...offered,
+    String(c.claimed_by_email || ""),
+  ])[0];
+  if (!next) return false;
+  s.transfers.push({
+    transfer_id: newId("transfer"),
+    case_id: c.case_id,
+    from_email: from?.from_email,
+    from_name: from?.from_name,
+    to_email: next.ngo.email,
+    to_name: next.ngo.name,
+    reason: from?.reason || "Critical case not picked up in time",
+    status: "pending",
+    requested_at: new Date().toISOString(),
+    escalated: true,
+  });
+  logEvent(s, c.case_id, "escalated", undefined, `Offered to ${next.ngo.name || next.ngo.email}`);
+  return true;
+}
+
+// Critical cases nobody has accepted: unanswered offers expire and move on to
+// the next-nearest NGO; unclaimed reports are offered directly. Returns how
+// many cases changed. The real backend runs this on a schedule; the mock runs
+// it before every request.
+function escalateCritical(s: MockState, now = Date.now()) {
+  let changed = 0;
+  for (const c of s.cases) {
+    if (c.severity !== "Critical" || isClosed(c.status) || c.verification_status === "dismissed") continue;
+    const offers = s.transfers.filter((t) => t.case_id === c.case_id);
+    const pending = offers.find((t) => t.status === "pending");
+    if (pending) {
+      if (now - Date.parse(String(pending.requested_at)) < ESCALATION_TIMEOUT_MS) continue;
+      Object.assign(pending, { status: "expired", responded_at: new Date(now).toISOString() });
+      offerToNextNgo(s, c, pending);
+      changed += 1;
+    } else if (c.status === "New") {
+      // first offer after the timeout, later ones as soon as one is declined
+      const due = offers.length > 0 || now - Date.parse(String(c.created_at)) >= ESCALATION_TIMEOUT_MS;
+      if (due && offerToNextNgo(s, c, undefined)) changed += 1;
+    }
+  }
+  return changed;
+}
+
+function callerEmail(req: MockRequest) {
+  if (req.headers["X-EMAIL"]) return req.headers["X-EMAIL"];
+  const token = (req.headers.Authorization || "").replace(/^Bearer fake-token-/, "");
+  const user = Object.values(FAKE_USERS).find((u) => u.uid === token);
+  return user?.email || null;
+}
+
+function storeUpload(base64: unknown, contentType = "image/jpeg") {
+  if (typeof base64 !== "string" || !base64) return undefined;
+  const key = `mock/${newId("upload")}`;
+  uploads.set(key, `data:${contentType};base64,${base64}`);
+  return key;
+}
+
+function presign(s: MockState, key: string) {
+  const upload = uploads.get(key);
+  if (upload) return ok({ url: upload });
+  const owner = s.cases.find((c) => c.s3_key === key);
+  return ok({ url: placeholderImage(String(owner?.species || "Rescue")) });
+}
+
+function reportCase(s: MockState, body: Row): MockResponse {
+  if (String(body.description || "").includes("#invalid") && !body.override_ai_rejection) {
+    return ok({
+      status: "invalid_image",
+      message: "This does not appear to be an animal",
+      rekognition_labels: [{ Name: "Furniture", Confidence: 91.2 }, { Name: "Indoors", Confidence: 85.0 }],
+    });
+  }
+  // a retry of a report that was already filed gets the same answer again
+  const repeat = body.client_report_id ? s.cases.find((c) => c.client_report_id === body.client_report_id) : undefined;
+  if (repeat) {
+    return ok({
+      status: repeat.verification_status === "unverified" ? "unverified" : "animal_detected",
+      message: "Case already created",
+      case_id: repeat.case_id,
+      tracking_code: repeat.tracking_code,
+      rekognition_labels: repeat.rekognition_labels,
+    });
+  }
+  const caseId = newId("case");
+  const images = Array.isArray(body.images_base64) ? body.images_base64 : [body.image_base64];
+  const s3Keys = images.map((img) => storeUpload(img)).filter(Boolean);
+  const labels = [{ Name: String(body.species || "Dog"), Confidence: 96.3 }];
+  const record: Row = {
+    ...body,
+    case_id: caseId,
+    tracking_code: `NVR-${caseId.slice(-5).toUpperCase()}`,
+    status: "New",
+    s3_key: s3Keys[Number(body.primary_image_index) || 0] || s3Keys[0],
+    s3_keys: s3Keys,
+    video_s3_key: storeUpload(body.video_base64, String(body.video_content_type || "video/mp4")),
+    verification_status: body.override_ai_rejection ? "unverified" : "verified",
+    rekognition_labels: labels,
+    created_at: new Date().toISOString(),
+  };
+  // media lives in uploads; keep the persisted record small
+  delete record.image_base64;
+  delete record.images_base64;
+  delete record.video_base64;
+  s.cases.push(record);
+  logEvent(s, caseId, "reported", body.contact_name);
+  return ok({
+    status: body.override_ai_rejection ? "unverified" : "animal_detected",
+    message: "Case created",
+    case_id: caseId,
+    tracking_code: record.tracking_code,
+    rekognition_labels: labels,
+  });
+}
+
+// Tracking codes only resolve here, never on the full /cases/{id} routes
+function trackCase(s: MockState, code: string): MockResponse {
+  const c = s.cases.find((x) => x.tracking_code === code);
+  if (!c) return fail(404, "Case not found");
+  const assignment = s.ngoCases.find((a) => a.case_id === c.case_id);
+  const ngo = assignment && s.ngos.find((n) => n.ngo_id === assignment.ngo_id);
+  const adoption = s.adoptions.find((a) => a.case_id === c.case_id);
+  return ok({
+    tracking_code: c.tracking_code,
+    status: assignment?.status || c.status,
+    severity: c.severity,
+    location: c.location,
+    created_at: c.created_at,
+    ngo_name: ngo?.name,
+    taken_at: assignment?.taken_at,
+    eta_minutes: assignment && !isClosed(assignment.status) ? 12 : undefined,
+    completed_at: assignment?.completed_at,
+    adoption_status: adoption?.adoption_status,
+  });
+}
+
+function route(req: MockRequest): MockResponse {
+  const s = load();
+  const body = (req.body && typeof req.body === "object" ? req.body : {}) as Row;
+  const parts = req.path.split("/").filter(Boolean).map(decodeURIComponent);
+  const [root, idPart, action, subId] = parts;
+  const m = req.method;
+
+  if (root === "report-case" && m === "POST") return reportCase(s, body);
+
+  // open cases, including ones held by other NGOs so the holder is visible
+  if (root === "cases-nearby" && m === "GET") {
+    return ok(
+      s.cases
+        .filter((c) => !isClosed(c.status) && c.verification_status !== "dismissed")
+        .map((c) => ({ ...c, taken_at: s.ngoCases.find((a) => a.case_id === c.case_id)?.taken_at }))
+    );
+  }
+
+  if (root === "cases") {
+    if (idPart === "recent" && m === "GET") {
+      // closed cases too: callers filter by status (the duplicate check) or want every report (the heatmap)
+      const since = Date.now() - (Number(req.query.hours) || 24) * 3600 * 1000;
+      return ok(s.cases.filter((c) => !c.created_at || Date.parse(String(c.created_at)) >= since));
+    }
+    if (action === "image-url" && m === "GET") {
+      if (req.query.key) return presign(s, req.query.key);
+      const c = findCase(s, idPart);
+      return c ? presign(s, String(c.s3_key || "")) : fail(404, "Case not found");
+    }
+
+    const c = findCase(s, idPart);
+    if (!c) return fail(404, "Case not found");
+
+    if (!action && m === "GET") {
+      const assignment = s.ngoCases.find((a) => a.case_id === c.case_id);
+      return ok({ ...c, taken_at: assignment?.taken_at, completed_at: assignment?.completed_at });
+    }
+    if (!action && m === "PATCH") {
+      if (!SEVERITY_LEVELS.includes(body.severity as Severity)) return fail(400, "Unknown severity");
+      if (isClosed(c.status)) return fail(409, "Closed cases cannot be changed");
+      if (c.claimed_by_email && !sameEmail(c.claimed_by_email, body.email)) {
+        return fail(403, "Only the NGO holding the case can change it");
+      }
+      if (c.severity !== body.severity) {
+        logEvent(s, c.case_id, "severity_changed", ngoName(s, body.email), `${c.severity || "Unknown"} → ${body.severity}`);
+        c.severity = body.severity;
+        c.version = (Number(c.version) || 1) + 1;
+      }
+      return ok({ message: "Case updated", version: c.version });
+    }
+    if (action === "events" && m === "GET") return ok(s.events.filter((e) => e.case_id === c.case_id));
+    if (action === "notes") {
+      const email = callerEmail(req);
+      if (!isOnCaseTeam(s, c, email)) return fail(403, "Notes are only visible to the NGO handling this case");
+      if (m === "GET") return ok(s.notes.filter((n) => n.case_id === c.case_id));
+      if (m === "POST" && !subId) {
+        const photoKeys = (Array.isArray(body.photos_base64) ? body.photos_base64 : []).map((img) => storeUpload(img));
+        const { photos_base64: _photos, ...fields } = body;
+        const note: Row = {
+          ...fields,
+          note_id: newId("note"),
+          case_id: c.case_id,
+          photo_keys: photoKeys.filter(Boolean),
+          author_email: email,
+          author_name: ngoName(s, c.claimed_by_email),
+          created_at: new Date().toISOString(),
+        };
+        s.notes.push(note);
+        if (fields.kind && fields.kind !== "note") logEvent(s, c.case_id, "treated", note.author_name, fields.text);
+        return ok(note);
+      }
+      const note = s.notes.find((n) => n.case_id === c.case_id && n.note_id === subId);
+      if (m === "PATCH" && note) {
+        const { photos_base64: _photos, note_id: _id, case_id: _case, ...fields } = body;
+        Object.assign(note, fields, { updated_at: new Date().toISOString(), updated_by: email });
+        return ok(note);
+      }
+      return fail(404, "Note not found");
+    }
+    if (action === "events" && m === "POST") {
+      if (!body.type) return fail(400, "Event type is required");
+      s.events.push({ ...body, case_id: c.case_id, at: body.at || new Date().toISOString() });
+      return ok({ message: "Event logged" });
+    }
+
+    const version = Number(c.version) || 1;
+    const conflict = (error: string) => ({
+      status: 409,
+      body: { error, claimed_by: c.claimed_by, claimed_by_email: c.claimed_by_email, status: c.status, version },
+    });
+
+    if (action === "take-action" && m === "POST") {
+      if (c.status !== "New") return conflict(`Case already claimed by ${c.claimed_by || "another NGO"}`);
+      if (body.version !== undefined && Number(body.version) !== version) {
+        return conflict("Case changed since you loaded it");
+      }
+      assignCase(s, c, body.email);
+      cancelTransfers(s, c.case_id);
+      logEvent(s, c.case_id, "claimed", c.claimed_by);
+      return ok({ message: "Case assigned", version: c.version });
+    }
+    if (action === "release" && m === "POST") {
+      if (!sameEmail(c.claimed_by_email, body.email)) return fail(403, "Only the NGO holding the case can release it");
+      if (body.version !== undefined && Number(body.version) !== version) {
+        return conflict("Case changed since you loaded it");
+      }
+      c.status = "New";
+      c.version = version + 1;
+      cancelTransfers(s, c.case_id);
+      logEvent(s, c.case_id, "released", c.claimed_by);
+      delete c.claimed_by;
+      delete c.claimed_by_email;
+      s.ngoCases = s.ngoCases.filter((a) => a.case_id !== c.case_id);
+      return ok({ message: "Case released", version: c.version });
+    }
+    if (action === "transfer" && m === "POST") {
+      if (!sameEmail(c.claimed_by_email, body.email)) return fail(403, "Only the NGO holding the case can transfer it");
+      if (isClosed(c.status)) return fail(409, "Closed cases cannot be transferred");
+      if (body.version !== undefined && Number(body.version) !== version) {
+        return conflict("Case changed since you loaded it");
+      }
+      if (s.transfers.some((t) => t.case_id === c.case_id && t.status === "pending")) {
+        return fail(409, "A transfer for this case is already waiting for an answer");
+      }
+      const target = s.ngos.find((n) => sameEmail(n.email, body.to_email));
+      if (!target || sameEmail(target.email, body.email)) return fail(400, "Choose another registered NGO");
+      if (!String(body.reason || "").trim()) return fail(400, "A reason is required");
+      const transfer: Row = {
+        transfer_id: newId("transfer"),
+        case_id: c.case_id,
+        from_email: c.claimed_by_email,
+        from_name: c.claimed_by,
+        to_email: target.email,
+        to_name: target.name,
+        reason: body.reason,
+        status: "pending",
+        requested_at: new Date().toISOString(),
+      };
+      s.transfers.push(transfer);
+      logEvent(s, c.case_id, "transfer_requested", c.claimed_by, `To ${target.name}: ${body.reason}`);
+      return ok(transfer);
+    }
+    if (action === "verify" && m === "POST") {
+      c.verification_status = body.decision === "dismiss" ? "dismissed" : "verified";
+      return ok({ message: `Case ${c.verification_status}` });
+    }
+    if (action === "attach" && m === "POST") {
+      const keys = (Array.isArray(body.images_base64) ? body.images_base64 : []).map((img) => storeUpload(img));
+      c.s3_keys = [...(Array.isArray(c.s3_keys) ? c.s3_keys : [c.s3_key]), ...keys].filter(Boolean);
+      c.additional_reports = [
+        ...(Array.isArray(c.additional_reports) ? c.additional_reports : []),
+        { description: body.description, contact_name: body.contact_name, at: new Date().toISOString() },
+      ];
+      return ok({ message: "Added to case", case_id: c.case_id, tracking_code: c.tracking_code });
+    }
+  }
+
+  if (root === "track" && m === "GET") return trackCase(s, idPart);
+
+  if (root === "transfers") {
+    if (!idPart && m === "GET") {
+      return ok(
+        s.transfers
+          .filter((t) => sameEmail(t.to_email, req.query.email) || sameEmail(t.from_email, req.query.email))
+          .map((t) => ({ ...t, case_payload: findCase(s, String(t.case_id)) }))
+      );
+    }
+    const t = s.transfers.find((x) => x.transfer_id === idPart);
+    if (!t) return fail(404, "Transfer not found");
+    if (action === "respond" && m === "POST") {
+      if (!sameEmail(t.to_email, body.email)) return fail(403, "This transfer was offered to another NGO");
+      if (t.status !== "pending") return fail(409, `Transfer already ${t.status}`);
+      const c = findCase(s, String(t.case_id));
+      if (!c) return fail(404, "Case not found");
+      const receiver = ngoName(s, t.to_email);
+      if (body.decision === "decline") {
+        Object.assign(t, { status: "declined", responded_at: new Date().toISOString(), decline_reason: body.reason });
+        logEvent(s, c.case_id, "transfer_declined", receiver, body.reason);
+        return ok({ message: "Transfer declined" });
+      }
+      // the case must still be where it was when the offer was made
+      const stillThere = t.from_email ? sameEmail(c.claimed_by_email, t.from_email) : c.status === "New";
+      if (isClosed(c.status) || !stillThere) {
+        Object.assign(t, { status: "cancelled", responded_at: new Date().toISOString() });
+        return fail(409, "This case has changed hands since the transfer was offered");
+      }
+      assignCase(s, c, t.to_email);
+      cancelTransfers(s, c.case_id);
+      t.status = "accepted";
+      logEvent(s, c.case_id, t.from_email ? "transferred" : "claimed", receiver, t.from_name ? `From ${t.from_name}` : "Accepted escalation");
+      return ok({ message: "Transfer accepted", version: c.version });
+    }
+  }
+
+  if (root === "ngo-cases") {
+    if (!idPart && m === "GET") {
+      return ok(
+        s.ngoCases
+          .filter((a) => sameEmail(a.ngo_email, req.query.email))
+          .map((a) => {
+            const c = findCase(s, String(a.case_id)) || {};
+            return { ...a, s3_key: c.s3_key, latitude: c.latitude, longitude: c.longitude, case_payload: c };
+          })
+      );
+    }
+    if (idPart && m === "PATCH") {
+      const a = s.ngoCases.find((x) => x.case_id === idPart);
+      if (!a) return fail(404, "Assignment not found");
+      const { after_photos_base64: afterPhotos, ...fields } = body;
+      if (Array.isArray(afterPhotos)) fields.after_photo_keys = afterPhotos.map((img) => storeUpload(img)).filter(Boolean);
+      Object.assign(a, fields);
+      if (isClosed(body.status)) {
+        a.completed_at = new Date().toISOString();
+        cancelTransfers(s, idPart);
+        logEvent(s, idPart, "completed", ngoName(s, a.ngo_email), [outcomeLabelFor(body.outcome), body.closure_notes].filter(Boolean).join(": "));
+      }
+      const c = findCase(s, idPart);
+      if (c && body.status) {
+        c.status = body.status;
+        c.version = (Number(c.version) || 1) + 1;
+        for (const key of ["outcome", "closure_notes", "after_photo_keys"]) {
+          if (fields[key] !== undefined) c[key] = fields[key];
+        }
+      }
+      return ok({ message: "Case updated" });
+    }
+  }
+
+  if (root === "adoptions") {
+    if (!idPart && m === "GET") {
+      const status = req.query.status || "available";
+      return ok(
+        s.adoptions
+          .filter((a) => status === "all" || a.adoption_status === status)
+          .map((a) => {
+            const notes = s.notes.filter((n) => n.case_id === a.case_id) as CaseNoteRecord[];
+            if (notes.length === 0) return a;
+            // adopters see the medical history but not what it cost
+            const { total_cost: _cost, ...summary } = summarizeNotes(notes);
+            return { ...a, treatment_summary: summary };
+          })
+      );
+    }
+    if (!idPart && m === "POST") {
+      const adoptionId = newId("adopt");
+      const imageKey = storeUpload(String(body.image_base64 || "").split(",").pop());
+      const { image_base64: _image, image_file: _file, ...rest } = body;
+      const createdAt = new Date().toISOString();
+      s.adoptions.push({ ...rest, adoption_id: adoptionId, image_key: imageKey, adoption_status: "available", created_at: createdAt });
+      if (body.case_id) logEvent(s, body.case_id, "pushed_for_adoption", ngoName(s, body.ngo_email));
+      return ok({ message: "Adoption posted", adoption_id: adoptionId });
+    }
+    const a = s.adoptions.find((x) => x.adoption_id === idPart);
+    if (!a) return fail(404, "Adoption not found");
+    if (action === "image-url" && m === "GET") {
+      return a.image_key ? presign(s, String(a.image_key)) : ok({ url: placeholderImage(String(a.animal_type || "Pet")) });
+    }
+    if (!action && m === "PATCH") {
+      Object.assign(a, body);
+      if (body.adoption_status === "adopted") {
+        a.adopted_at = new Date().toISOString();
+        if (a.case_id) logEvent(s, a.case_id, "adopted");
+      }
+      return ok({ message: "Adoption updated" });
+    }
+  }
+
+  if (root === "ngos") {
+    if (m === "GET") return ok(s.ngos);
+    if (m === "POST") {
+      const ngoId = newId("ngo");
+      s.ngos.push({ ...body, ngo_id: ngoId });
+      return ok({ message: "NGO registered", ngo_id: ngoId });
+    }
+    if (idPart && m === "PATCH") {
+      const ngo = s.ngos.find((n) => String(n.ngo_id) === idPart);
+      if (!ngo) return fail(404, "NGO not found");
+      if (body.service_area !== undefined && body.service_area !== null && !parseServiceArea(body.service_area)) {
+        return fail(400, "service_area must be a GeoJSON Polygon, or a Point with properties.radius_km");
+      }
+      Object.assign(ngo, body, { ngo_id: ngo.ngo_id });
+      return ok({ message: "NGO updated" });
+    }
+  }
+
+  if (root === "users" && idPart === "profile") {
+    const email = callerEmail(req);
+    if (!email) return fail(401, "Not signed in");
+    if (m === "GET") {
+      const profile = s.profiles.find((p) => sameEmail(p.email, email));
+      return profile ? ok({ profile }) : fail(404, "Profile not found");
+    }
+    if (m === "POST") {
+      const existing = s.profiles.find((p) => sameEmail(p.email, email));
+      if (existing) Object.assign(existing, body);
+      else s.profiles.push({ ...body, email, joinedDate: new Date().toISOString().slice(0, 10) });
+      return ok({ message: "Profile saved" });
+    }
+  }
+
+  return fail(404, `Mock backend has no route for ${m} ${req.path}`);
+}
+
+export async function handleMockRequest(req: MockRequest): Promise<MockResponse> {
+  await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+  const escalated = escalateCritical(load());
+  const res = route(req);
+  if (req.method !== "GET" || escalated > 0) save();
+  // callers get copies, like a real JSON round trip
+  return { status: res.status, body: res.body === undefined ? undefined : JSON.parse(JSON.stringify(res.body)) };
+}
+
+if (typeof window !== "undefined") {
+  (window as unknown as { resetMockBackend?: () => void }).resetMockBackend = resetMockBackend;
+  // pick up reports and claims made in other tabs
+  window.addEventListener("storage", (e) => {
+    if (e.key === STORAGE_KEY) state = null;
+  });
+}
@@ -0,0 +1,356 @@
+// Seed data for the mock backend and the fake auth mode
+// Everything is placed around central Pune and timestamped relative to the
+// moment the mock backend is first seeded, so lists and SLAs look fresh.
+
+export const FAKE_USERS = {
+  ngo: {
+    uid: "demo-ngo",
+    email: "rescue@pawsfirst.example",
+    name: "Paws First Rescue",
+    phone: "+91 98220 00001",
+    address: "Shivajinagar, Pune",
+    role: "ngo",
+  },
+  user: {
+    uid: "demo-user",
+    email: "asha@example.com",
+    name: "Asha Verma",
+    phone: "+91 98220 00002",
+    address: "Kothrud, Pune",
+    role: "user",
+  },
+} as const;
+
+const COLORS: Record<string, string> = {
+  Dog: "#F59E0B",
+  Cat: "#8B5CF6",
+  Cattle: "#10B981",
+  Bird: "#3B82F6",
+  Monkey: "#EF4444",
+};
+
+// Inline SVG so the mock never needs network access for images
+export function placeholderImage(label: string) {
+  const color = COLORS[label] || "#19C2E6";
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="480">` +
+    `<rect width="100%" height="100%" fill="${color}"/>` +
+    `<text x="50%" y="50%" font-family="sans-serif" font-size="56" fill="#fff" text-anchor="middle" dominant-baseline="middle">${label}</text>` +
+    `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+const hoursAgo = (now: number, h: number) => new Date(now - h * 3600 * 1000).toISOString();
+
+type Row = Record<string, unknown>;
+
+export interface MockState {
+  ngos: Row[];
+  cases: Row[];
+  ngoCases: Row[];
+  adoptions: Row[];
+  profiles: Row[];
+  // case activity log, { case_id, type, at, actor, note }
+  events: Row[];
+  // NGO notes / treatment log entries
+  notes: Row[];
+  // handover offers between NGOs, including escalations
+  transfers: Row[];
+}
+
+export function seedFixtures(now = Date.now()): MockState {
+  const ngos = [
+    {
+      ngo_id: "ngo-1",
+      name: FAKE_USERS.ngo.name,
+      email: FAKE_USERS.ngo.email,
+      phone: FAKE_USERS.ngo.phone,
+      address: FAKE_USERS.ngo.address,
+      latitude: 18.5308,
+      longitude: 73.8475,
+      service_radius_km: 15,
+      // other team logins that may see and edit the NGO's case notes
+      members: ["vet@pawsfirst.example"],
+    },
+    {
+      ngo_id: "ngo-2",
+      name: "Hadapsar Animal Aid",
+      email: "help@hadapsaraid.example",
+      phone: "+91 98220 00003",
+      address: "Hadapsar, Pune",
+      latitude: 18.5089,
+      longitude: 73.926,
+      service_radius_km: 10,
+      // a drawn area (GeoJSON [lng, lat]) covering the eastern suburbs
+      service_area: {
+        type: "Feature",
+        geometry: {
+          type: "Polygon",
+          coordinates: [
+            [
+              [73.89, 18.54],
+              [73.97, 18.55],
+              [73.98, 18.48],
+              [73.9, 18.47],
+              [73.89, 18.54],
+            ],
+          ],
+        },
+        properties: {},
+      },
+    },
+  ];
+
+  const cases = [
+    {
+      case_id: "case-101",
+      tracking_code: "NVR-101",
+      description: "Dog hit by a scooter near FC Road signal, bleeding from the back leg",
+      location: "FC Road, Shivajinagar, Pune",
+      latitude: 18.5236,
+      longitude: 73.8412,
+      severity: "Critical",
+      severity_suggested: "Critical",
+      severity_score: 9,
+      status: "New",
+      species: "Dog",
+      injury_types: ["road_accident", "bleeding"],
+      animal_count: 1,
+      contact_name: FAKE_USERS.user.name,
+      contact_phone: FAKE_USERS.user.phone,
+      s3_key: "mock/case-101.jpg",
+      rekognition_labels: [{ Name: "Dog", Confidence: 98.2 }, { Name: "Blood", Confidence: 71.4 }],
+      created_at: hoursAgo(now, 0.4),
+    },
+    {
+      case_id: "case-102",
+      tracking_code: "NVR-102",
+      description: "Kitten stuck inside a storm drain, crying for hours",
+      location: "Prabhat Road, Erandwane, Pune",
+      latitude: 18.5132,
+      longitude: 73.8338,
+      severity: "High",
+      severity_suggested: "High",
+      severity_score: 5,
+      status: "New",
+      species: "Cat",
+      injury_types: ["trapped"],
+      animal_count: 1,
+      contact_name: "Rohan K",
+      contact_phone: "+91 98220 00010",
+      s3_key: "mock/case-102.jpg",
+      rekognition_labels: [{ Name: "Cat", Confidence: 95.1 }],
+      created_at: hoursAgo(now, 2),
+    },
+    {
+      case_id: "case-103",
+      tracking_code: "NVR-103",
+      description: "Cow with a large maggot wound on the neck, standing near the vegetable market",
+      location: "Mandai, Shukrawar Peth, Pune",
+      latitude: 18.5128,
+      longitude: 73.8567,
+      severity: "Critical",
+      severity_suggested: "High",
+      severity_score: 4,
+      status: "New",
+      species: "Cattle",
+      injury_types: ["maggot_wound"],
+      animal_count: 1,
+      contact_name: "Meera S",
+      contact_phone: "+91 98220 00011",
+      s3_key: "mock/case-103.jpg",
+      rekognition_labels: [{ Name: "Cow", Confidence: 97.5 }],
+      created_at: hoursAgo(now, 5),
+    },
+    {
+      case_id: "case-104",
+      tracking_code: "NVR-104",
+      description: "Something injured under a parked car, too dark to see properly",
+      location: "Model Colony, Pune",
+      latitude: 18.5289,
+      longitude: 73.8347,
+      severity: "Medium",
+      severity_suggested: "Low",
+      severity_score: 1,
+      status: "New",
+      species: "",
+      injury_types: [],
+      animal_count: 1,
+      contact_name: "Night caller",
+      contact_phone: "+91 98220 00012",
+      s3_key: "mock/case-104.jpg",
+      verification_status: "unverified",
+      override_reason: "Photo taken at night, it's a puppy under the car",
+      rekognition_labels: [{ Name: "Car", Confidence: 88.0 }, { Name: "Night", Confidence: 80.3 }],
+      created_at: hoursAgo(now, 1),
+    },
+    {
+      case_id: "case-105",
+      tracking_code: "NVR-105",
+      description: "Pigeon with a broken wing on the footpath",
+      location: "JM Road, Deccan Gymkhana, Pune",
+      latitude: 18.5196,
+      longitude: 73.8453,
+      severity: "Medium",
+      severity_suggested: "Medium",
+      severity_score: 2,
+      status: "In Progress",
+      species: "Bird",
+      injury_types: ["fracture"],
+      animal_count: 1,
+      contact_name: FAKE_USERS.user.name,
+      contact_phone: FAKE_USERS.user.phone,
+      s3_key: "mock/case-105.jpg",
+      rekognition_labels: [{ Name: "Bird", Confidence: 93.7 }, { Name: "Pigeon", Confidence: 90.2 }],
+      version: 2,
+      claimed_by: FAKE_USERS.ngo.name,
+      claimed_by_email: FAKE_USERS.ngo.email,
+      created_at: hoursAgo(now, 8),
+    },
+    {
+      case_id: "case-106",
+      tracking_code: "NVR-106",
+      description: "Three abandoned puppies in a cardboard box, weak and not eating",
+      location: "Aundh, Pune",
+      latitude: 18.5590,
+      longitude: 73.8077,
+      severity: "High",
+      severity_suggested: "Medium",
+      severity_score: 3,
+      status: "completed",
+      outcome: "sheltered",
+      closure_notes: "Puppies moved to our Aundh shelter for recovery and adoption.",
+      species: "Dog",
+      injury_types: ["abandoned", "weak"],
+      animal_count: 3,
+      contact_name: "Kiran P",
+      contact_phone: "+91 98220 00013",
+      s3_key: "mock/case-106.jpg",
+      rekognition_labels: [{ Name: "Puppy", Confidence: 96.4 }],
+      version: 2,
+      claimed_by: FAKE_USERS.ngo.name,
+      claimed_by_email: FAKE_USERS.ngo.email,
+      created_at: hoursAgo(now, 72),
+    },
+  ];
+
+  const ngoCases = [
+    {
+      case_id: "case-105",
+      ngo_id: "ngo-1",
+      ngo_email: FAKE_USERS.ngo.email,
+      status: "In Progress",
+      taken_at: hoursAgo(now, 7.5),
+    },
+    {
+      case_id: "case-106",
+      ngo_id: "ngo-1",
+      ngo_email: FAKE_USERS.ngo.email,
+      status: "completed",
+      taken_at: hoursAgo(now, 70),
+      completed_at: hoursAgo(now, 60),
+      outcome: "sheltered",
+      closure_notes: "Puppies moved to our Aundh shelter for recovery and adoption.",
+    },
+  ];
+
+  const adoptions = [
+    {
+      adoption_id: "adopt-1",
+      case_id: "case-106",
+      ngo_email: FAKE_USERS.ngo.email,
+      name: "Biscuit",
+      animal_type: "Dog",
+      breed: "Indie",
+      age: "3 months",
+      gender: "Male",
+      description: "Playful pup rescued from Aundh, fully recovered and loves people.",
+      vaccinated: true,
+      neutered: false,
+      adoption_status: "available",
+    },
+    {
+      adoption_id: "adopt-2",
+      case_id: "case-090",
+      ngo_email: FAKE_USERS.ngo.email,
+      name: "Misty",
+      animal_type: "Cat",
+      breed: "Domestic Shorthair",
+      age: "1 year",
+      gender: "Female",
+      description: "Calm indoor cat, good with children.",
+      vaccinated: true,
+      neutered: true,
+      adoption_status: "available",
+    },
+    {
+      adoption_id: "adopt-3",
+      case_id: "case-080",
+      ngo_email: "help@hadapsaraid.example",
+      name: "Raja",
+      animal_type: "Dog",
+      breed: "Labrador mix",
+      age: "2 years",
+      gender: "Male",
+      description: "Found a loving home in Viman Nagar.",
+      vaccinated: true,
+      neutered: true,
+      adoption_status: "adopted",
+    },
+  ];
+
+  const profiles = [FAKE_USERS.ngo, FAKE_USERS.user].map((u) => ({
+    ...u,
+    joinedDate: hoursAgo(now, 24 * 90).slice(0, 10),
+  }));
+
+  const events = [
+    { case_id: "case-105", type: "reported", at: hoursAgo(now, 8), actor: FAKE_USERS.user.name },
+    { case_id: "case-105", type: "claimed", at: hoursAgo(now, 7.5), actor: FAKE_USERS.ngo.name },
+    { case_id: "case-105", type: "en_route", at: hoursAgo(now, 7.4), actor: FAKE_USERS.ngo.name },
+    { case_id: "case-106", type: "reported", at: hoursAgo(now, 72), actor: "Kiran P" },
+    { case_id: "case-106", type: "claimed", at: hoursAgo(now, 70), actor: FAKE_USERS.ngo.name },
+    { case_id: "case-106", type: "arrived", at: hoursAgo(now, 69), actor: FAKE_USERS.ngo.name },
+    { case_id: "case-106", type: "completed", at: hoursAgo(now, 60), actor: FAKE_USERS.ngo.name },
+    { case_id: "case-106", type: "pushed_for_adoption", at: hoursAgo(now, 48), actor: FAKE_USERS.ngo.name },
+  ];
+
+  const notes = [
+    {
+      note_id: "note-1",
+      case_id: "case-105",
+      kind: "vet_visit",
+      text: "Left wing fracture confirmed, wing strapped. Keep caged for 3 weeks.",
+      vet_name: "Dr. Kulkarni, Deccan Vet Clinic",
+      cost: 600,
+      author_email: FAKE_USERS.ngo.email,
+      author_name: FAKE_USERS.ngo.name,
+      created_at: hoursAgo(now, 6),
+    },
+    {
+      note_id: "note-2",
+      case_id: "case-106",
+      kind: "medication",
+      text: "Deworming for all three puppies.",
+      medication: "Albendazole",
+      dosage: "1 ml each, single dose",
+      cost: 150,
+      author_email: FAKE_USERS.ngo.email,
+      author_name: FAKE_USERS.ngo.name,
+      created_at: hoursAgo(now, 68),
+    },
+    {
+      note_id: "note-3",
+      case_id: "case-106",
+      kind: "vet_visit",
+      text: "All three eating well, first vaccination given.",
+      vet_name: "Dr. Shah",
+      cost: 1200,
+      author_email: FAKE_USERS.ngo.email,
+      author_name: FAKE_USERS.ngo.name,
+      created_at: hoursAgo(now, 62),
+    },
+  ];
+
+  return { ngos, cases, ngoCases, adoptions, profiles, events, notes, transfers: [] };
+}
@@ -0,0 +1,77 @@
+// IndexedDB database holding data that must survive reloads and lost connectivity
+
+const DB_NAME = "nivaran-offline";
+const DB_VERSION = 2;
+
+export const REPORT_QUEUE_STORE = "report-queue";
+export const REPORT_DRAFT_STORE = "report-draft";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(REPORT_QUEUE_STORE)) {
+        db.createObjectStore(REPORT_QUEUE_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(REPORT_DRAFT_STORE)) {
+        db.createObjectStore(REPORT_DRAFT_STORE, { keyPath: "id" });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const req = run(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Read-modify-write of one record inside a single readwrite transaction.
+// IndexedDB runs overlapping readwrite transactions on a store one at a time,
+// across tabs too, so two callers can never both see the same old value.
+// `update` returns the record to store, or null to leave it untouched; the
+// promise resolves with what was stored.
+export async function updateRecord<T>(
+  storeName: string,
+  key: IDBValidKey,
+  update: (current: T | undefined) => T | null
+): Promise<T | null> {
+  const db = await openDb();
+  try {
+    return await new Promise<T | null>((resolve, reject) => {
+      const tx = db.transaction(storeName, "readwrite");
+      const store = tx.objectStore(storeName);
+      let stored: T | null = null;
+      const req = store.get(key);
+      req.onsuccess = () => {
+        stored = update(req.result as T | undefined);
+        if (stored) store.put(stored);
+      };
+      tx.oncomplete = () => resolve(stored);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
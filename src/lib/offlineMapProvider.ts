@@ -0,0 +1,231 @@
+// Tile-free map: markers placed by Web Mercator projection over a plain grid
+// Needs no API key or network, so it backs the dashboard in mock mode and
+// tests, and takes over when Google Maps fails to load. Supports drag to pan,
+// wheel / buttons to zoom, clickable markers and map clicks; there is no base map.
+
+import {
+  AREA_COLOR,
+  HEATMAP_COLOR,
+  HeatPoint,
+  LatLng,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  MapHandle,
+  MapMarker,
+  MapOptions,
+  MapProvider,
+  PATH_COLOR,
+  centerOf,
+  clusterBadgeSize,
+  project,
+  unproject,
+  zoomToFit,
+} from "./mapProvider";
+
+const GRID_PX = 64;
+// pointer travel below this still counts as a click on a marker
+const DRAG_THRESHOLD_PX = 4;
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+function createOfflineMap(container: HTMLElement, options: MapOptions): MapHandle {
+  let center: LatLng = options.center;
+  let zoom = options.zoom;
+  let markers: MapMarker[] = [];
+  let heat: HeatPoint[] = [];
+  let area: LatLng[] | null = null;
+  let path: LatLng[] | null = null;
+
+  const root = document.createElement("div");
+  Object.assign(root.style, {
+    position: "absolute",
+    inset: "0",
+    overflow: "hidden",
+    cursor: "grab",
+    touchAction: "none",
+    background: "#f1f5f9",
+    backgroundImage:
+      "linear-gradient(#dbe3ea 1px, transparent 1px), linear-gradient(90deg, #dbe3ea 1px, transparent 1px)",
+    backgroundSize: `${GRID_PX}px ${GRID_PX}px`,
+  });
+  const heatCanvas = document.createElement("canvas");
+  Object.assign(heatCanvas.style, { position: "absolute", inset: "0", pointerEvents: "none" });
+  const areaSvg = document.createElementNS(SVG_NS, "svg");
+  Object.assign(areaSvg.style, { position: "absolute", inset: "0", width: "100%", height: "100%", pointerEvents: "none" });
+  const areaShape = document.createElementNS(SVG_NS, "polygon");
+  areaShape.setAttribute("fill", AREA_COLOR);
+  areaShape.setAttribute("fill-opacity", "0.12");
+  areaShape.setAttribute("stroke", AREA_COLOR);
+  areaShape.setAttribute("stroke-width", "2");
+  const pathLine = document.createElementNS(SVG_NS, "polyline");
+  pathLine.setAttribute("fill", "none");
+  pathLine.setAttribute("stroke", PATH_COLOR);
+  pathLine.setAttribute("stroke-opacity", "0.8");
+  pathLine.setAttribute("stroke-width", "4");
+  pathLine.setAttribute("stroke-linejoin", "round");
+  areaSvg.append(areaShape, pathLine);
+  const layer = document.createElement("div");
+  Object.assign(layer.style, { position: "absolute", inset: "0" });
+  root.append(heatCanvas, areaSvg, layer);
+  container.appendChild(root);
+
+  const drawHeat = (width: number, height: number, c: { x: number; y: number }) => {
+    heatCanvas.width = width;
+    heatCanvas.height = height;
+    const ctx = heatCanvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    // spots are sized in metres like the Google circles, but never shrink below a few pixels
+    const metersPerPx = (156543.03 * Math.cos((center.lat * Math.PI) / 180)) / 2 ** zoom;
+    for (const h of heat) {
+      const p = project(h.position, zoom);
+      const x = p.x - c.x + width / 2;
+      const y = p.y - c.y + height / 2;
+      const radius = Math.max(12, (200 + 100 * h.weight) / metersPerPx);
+      const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+      gradient.addColorStop(0, HEATMAP_COLOR);
+      gradient.addColorStop(1, "transparent");
+      ctx.globalAlpha = Math.min(0.6, 0.15 + 0.08 * h.weight);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+    }
+  };
+
+  const render = () => {
+    const { width, height } = root.getBoundingClientRect();
+    const c = project(center, zoom);
+    root.style.backgroundPosition = `${(width / 2 - c.x) % GRID_PX}px ${(height / 2 - c.y) % GRID_PX}px`;
+    drawHeat(width, height, c);
+    const toSvgPoints = (points: LatLng[] | null) =>
+      (points || [])
+        .map((point) => {
+          const p = project(point, zoom);
+          return `${p.x - c.x + width / 2},${p.y - c.y + height / 2}`;
+        })
+        .join(" ");
+    areaShape.setAttribute("points", toSvgPoints(area));
+    pathLine.setAttribute("points", toSvgPoints(path));
+    layer.replaceChildren(
+      ...markers.map((m) => {
+        const p = project(m.position, zoom);
+        const base = m.kind === "base";
+        const cluster = m.kind === "cluster";
+        const vertex = m.kind === "vertex";
+        const size = cluster ? clusterBadgeSize(m.weight) : vertex ? 14 : base ? 16 : m.label ? 22 : 18;
+        const el = document.createElement("button");
+        el.type = "button";
+        el.title = m.title || "";
+        el.dataset.markerId = m.id;
+        if (m.label || m.count) el.textContent = m.label || String(m.count);
+        Object.assign(el.style, {
+          position: "absolute",
+          left: `${p.x - c.x + width / 2 - size / 2}px`,
+          top: `${p.y - c.y + height / 2 - size / 2}px`,
+          width: `${size}px`,
+          height: `${size}px`,
+          borderRadius: base ? "3px" : "50%",
+          transform: base ? "rotate(45deg)" : "",
+          background: vertex ? "#fff" : m.color,
+          border: vertex ? `3px solid ${m.color}` : cluster ? "3px solid #fff" : "2px solid #fff",
+          boxShadow: "0 1px 3px rgba(0,0,0,0.4)",
+          cursor: "pointer",
+          zIndex: base ? "1" : cluster || vertex ? "3" : "2",
+          padding: "0",
+          color: "#fff",
+          fontSize: "12px",
+          fontWeight: "bold",
+          lineHeight: "1",
+        });
+        return el;
+      })
+    );
+  };
+
+  // drag to pan; a press that barely moved on a marker is a click
+  let drag: { x: number; y: number; start: { x: number; y: number }; moved: boolean } | null = null;
+  const onPointerDown = (e: PointerEvent) => {
+    const start = project(center, zoom);
+    drag = { x: e.clientX, y: e.clientY, start, moved: false };
+    root.setPointerCapture(e.pointerId);
+    root.style.cursor = "grabbing";
+  };
+  const onPointerMove = (e: PointerEvent) => {
+    if (!drag) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return;
+    drag.moved = true;
+    center = unproject({ x: drag.start.x - dx, y: drag.start.y - dy }, zoom);
+    render();
+  };
+  const onPointerUp = (e: PointerEvent) => {
+    const wasClick = drag && !drag.moved;
+    drag = null;
+    root.style.cursor = "grab";
+    if (root.hasPointerCapture(e.pointerId)) root.releasePointerCapture(e.pointerId);
+    if (!wasClick) return;
+    // pointer capture retargets events to root; find the marker under the pointer
+    const hit = document.elementFromPoint(e.clientX, e.clientY) as HTMLElement | null;
+    const id = hit?.dataset.markerId;
+    if (id) {
+      options.onMarkerClick?.(id);
+      return;
+    }
+    const rect = root.getBoundingClientRect();
+    const c = project(center, zoom);
+    options.onMapClick?.(
+      unproject({ x: c.x + e.clientX - rect.left - rect.width / 2, y: c.y + e.clientY - rect.top - rect.height / 2 }, zoom)
+    );
+  };
+  const setZoom = (next: number) => {
+    zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, next));
+    render();
+    options.onViewChange?.(zoom);
+  };
+  const onWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    setZoom(zoom + (e.deltaY < 0 ? 1 : -1));
+  };
+
+  root.addEventListener("pointerdown", onPointerDown);
+  root.addEventListener("pointermove", onPointerMove);
+  root.addEventListener("pointerup", onPointerUp);
+  root.addEventListener("wheel", onWheel, { passive: false });
+  const resize = new ResizeObserver(render);
+  resize.observe(root);
+
+  return {
+    setMarkers(next) {
+      markers = next;
+      render();
+    },
+    setHeatmap(points) {
+      heat = points;
+      render();
+    },
+    setArea(outline) {
+      area = outline;
+      render();
+    },
+    setPath(points) {
+      path = points;
+      render();
+    },
+    fitTo(points) {
+      if (points.length === 0) return;
+      const { width, height } = root.getBoundingClientRect();
+      center = centerOf(points);
+      setZoom(zoomToFit(points, width, height));
+    },
+    zoomIn: () => setZoom(zoom + 1),
+    zoomOut: () => setZoom(zoom - 1),
+    destroy() {
+      resize.disconnect();
+      root.remove();
+    },
+  };
+}
+
+export const offlineMapProvider: MapProvider = {
+  name: "offline",
+  create: async (container, options) => createOfflineMap(container, options),
+};
@@ -0,0 +1,26 @@
+// Create a map with the preferred provider, falling back to the offline map
+// when Google Maps is not configured or fails to load
+
+import { MapHandle, MapOptions, preferredMapProvider } from "./mapProvider";
+import { googleMapProvider } from "./googleMapProvider";
+import { offlineMapProvider } from "./offlineMapProvider";
+
+export interface OpenedMap {
+  handle: MapHandle;
+  provider: "google" | "offline";
+  // why Google was not used, when it was tried and failed
+  fallbackReason: string | null;
+}
+
+export async function openMap(container: HTMLElement, options: MapOptions): Promise<OpenedMap> {
+  const preferred = preferredMapProvider();
+  try {
+    const handle = await (preferred === "google" ? googleMapProvider : offlineMapProvider).create(container, options);
+    return { handle, provider: preferred, fallbackReason: null };
+  } catch (err) {
+    console.warn("Google Maps unavailable, using the offline map", err);
+    container.innerHTML = "";
+    const handle = await offlineMapProvider.create(container, options);
+    return { handle, provider: "offline", fallbackReason: (err as Error).message };
+  }
+}
@@ -0,0 +1,114 @@
+// Report form model and local draft storage
+// The report page keeps its form state in this shape; drafts store the same
+// shape so an unfinished report can be restored after a reload or app switch.
+
+import { REPORT_DRAFT_STORE, withStore } from "./offlineDb";
+import type { ReportMedia } from "@/components/ReportMediaPicker";
+import type { LatLng } from "@/components/LocationPinPicker";
+
+export interface ReportFormData {
+  description: string;
+  severity: string;
+  contactName: string;
+  contactPhone: string;
+  location: string;
+  // empty while the species is left to the AI label
+  species: string;
+  injuryTypes: string[];
+  animalCount: number;
+}
+
+export const EMPTY_REPORT_FORM: ReportFormData = {
+  description: "",
+  severity: "",
+  contactName: "",
+  contactPhone: "",
+  location: "",
+  species: "",
+  injuryTypes: [],
+  animalCount: 1,
+};
+
+export interface ReportDraft {
+  formData: ReportFormData;
+  media: ReportMedia[];
+  primaryMediaId: string | null;
+  coords: LatLng | null;
+  savedAt: number;
+}
+
+// single draft per device
+const DRAFT_ID = "current";
+
+export function isDraftEmpty(draft: Omit<ReportDraft, "savedAt">) {
+  const edited = (Object.keys(EMPTY_REPORT_FORM) as (keyof ReportFormData)[]).some(
+    (key) => JSON.stringify(draft.formData[key]) !== JSON.stringify(EMPTY_REPORT_FORM[key])
+  );
+  return !edited && draft.media.length === 0 && !draft.coords;
+}
+
+// Fill in fields added to the form since the draft was written and drop ones
+// that no longer exist, so old drafts keep loading after form changes.
+function normalizeFormData(saved: Partial<Record<string, unknown>> | undefined): ReportFormData {
+  const form = { ...EMPTY_REPORT_FORM };
+  if (!saved) return form;
+  (Object.keys(form) as (keyof ReportFormData)[]).forEach((key) => {
+    const value = saved[key];
+    if (value === undefined || value === null) return;
+    (form as Record<string, unknown>)[key] = Array.isArray(EMPTY_REPORT_FORM[key])
+      ? (Array.isArray(value) ? value : [])
+      : typeof EMPTY_REPORT_FORM[key] === "number"
+      ? Number(value) || EMPTY_REPORT_FORM[key]
+      : typeof value === "string" ? value : String(value);
+  });
+  return form;
+}
+
+export async function loadReportDraft(): Promise<ReportDraft | null> {
+  try {
+    const row = await withStore<(ReportDraft & { id: string }) | undefined>(
+      REPORT_DRAFT_STORE,
+      "readonly",
+      (s) => s.get(DRAFT_ID)
+    );
+    if (!row) return null;
+    const draft: ReportDraft = {
+      formData: normalizeFormData(row.formData as unknown as Record<string, unknown>),
+      // only fully read files are saved, but guard against older rows
+      media: Array.isArray(row.media) ? row.media.filter((m) => m && m.dataUrl) : [],
+      primaryMediaId: row.primaryMediaId ?? null,
+      coords: row.coords ?? null,
+      savedAt: Number(row.savedAt) || Date.now(),
+    };
+    return isDraftEmpty(draft) ? null : draft;
+  } catch (err) {
+    console.warn("Failed to load report draft", err);
+    return null;
+  }
+}
+
+export async function saveReportDraft(draft: Omit<ReportDraft, "savedAt">) {
+  try {
+    if (isDraftEmpty(draft)) {
+      await clearReportDraft();
+      return;
+    }
+    const row = {
+      id: DRAFT_ID,
+      ...draft,
+      media: draft.media.filter((m) => m.dataUrl),
+      savedAt: Date.now(),
+    };
+    await withStore(REPORT_DRAFT_STORE, "readwrite", (s) => s.put(row));
+  } catch (err) {
+    console.warn("Failed to save report draft", err);
+  }
+}
+
+export async function clearReportDraft() {
+  try {
+    await withStore(REPORT_DRAFT_STORE, "readwrite", (s) => s.delete(DRAFT_ID));
+  } catch (err) {
+    console.warn("Failed to clear report draft", err);
+  }
+}
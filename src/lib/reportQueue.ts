@@ -0,0 +1,192 @@
+// Offline queue for rescue reports
+// Reports that cannot reach the backend are kept in IndexedDB (including the
+// base64 image) and re-sent when the browser comes back online. An item is
+// claimed in an IndexedDB transaction before it is sent, so a manual retry,
+// the automatic flush and other tabs never upload it twice; every report also
+// carries a client_report_id the backend uses to drop repeats that still
+// get through (a response lost on the way back).
+
+import { rememberTrackingCode, trackingCodeFrom } from "./caseTracking";
+import { REPORT_QUEUE_STORE, updateRecord, withStore } from "./offlineDb";
+import { ApiError, api } from "./apiClient";
+
+// Fired on window whenever the queue contents change so UI can re-read it
+export const REPORT_QUEUE_EVENT = "nivaran:report-queue-changed";
+
+export type QueuedReportStatus = "pending" | "uploading" | "failed" | "rejected";
+
+export interface QueuedReport {
+  id: string;
+  payload: Record<string, unknown>;
+  createdAt: number;
+  status: QueuedReportStatus;
+  attempts: number;
+  lastError?: string;
+  // when the current "uploading" claim was taken
+  claimedAt?: number;
+}
+
+// an "uploading" claim older than this was left by a closed tab
+const STALE_CLAIM_MS = 2 * 60_000;
+
+export interface SendResult {
+  ok: boolean;
+  // true when the request never got a response (offline, DNS, CORS, ...)
+  networkError: boolean;
+  status?: number;
+  data: Record<string, unknown>;
+}
+
+function notifyChanged() {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event(REPORT_QUEUE_EVENT));
+  }
+}
+
+export async function listQueuedReports(): Promise<QueuedReport[]> {
+  const items = await withStore<QueuedReport[]>(REPORT_QUEUE_STORE, "readonly", (s) => s.getAll());
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+const newId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+// Idempotency key for a new report; resending the same payload reuses it
+export const newClientReportId = newId;
+
+export async function enqueueReport(payload: Record<string, unknown>): Promise<QueuedReport> {
+  const item: QueuedReport = {
+    id: newId(),
+    payload: { ...payload, client_report_id: payload.client_report_id || newId() },
+    createdAt: Date.now(),
+    status: "pending",
+    attempts: 0,
+  };
+  await withStore(REPORT_QUEUE_STORE, "readwrite", (s) => s.put(item));
+  notifyChanged();
+  return item;
+}
+
+async function saveQueuedReport(item: QueuedReport) {
+  await withStore(REPORT_QUEUE_STORE, "readwrite", (s) => s.put(item));
+  notifyChanged();
+}
+
+export async function removeQueuedReport(id: string) {
+  await withStore(REPORT_QUEUE_STORE, "readwrite", (s) => s.delete(id));
+  notifyChanged();
+}
+
+// Mark a report the AI rejected as "submit anyway": the backend files it as an
+// unverified case that an NGO has to confirm or dismiss.
+export function withReviewOverride(payload: Record<string, unknown>, reason?: string) {
+  return {
+    ...payload,
+    override_ai_rejection: true,
+    override_reason: reason?.trim() || "",
+  };
+}
+
+// POST a report payload to the backend. Never throws.
+export async function sendReport(payload: Record<string, unknown>): Promise<SendResult> {
+  try {
+    const data = await api.cases.report(payload);
+    return { ok: true, networkError: false, status: 200, data };
+  } catch (err) {
+    if (!(err instanceof ApiError)) {
+      console.error("Report upload failed", err);
+      return { ok: false, networkError: false, data: { message: err instanceof Error ? err.message : String(err) } };
+    }
+    if (err.kind === "network" || err.kind === "timeout") {
+      console.warn("Report upload failed", err);
+      return { ok: false, networkError: true, data: {} };
+    }
+    const body = err.body && typeof err.body === "object" ? (err.body as Record<string, unknown>) : {};
+    // The backend answered 2xx, so the case is filed even though the response
+    // did not match the expected shape; retrying would file it twice.
+    if (err.kind === "validation") return { ok: true, networkError: false, status: err.status, data: body };
+    return { ok: false, networkError: false, status: err.status, data: { message: err.message, ...body } };
+  }
+}
+
+// Take an item for uploading if it is in one of `from` (or its upload claim is
+// stale). Null when it is gone or someone else is already sending it.
+async function claimQueuedReport(id: string, from: QueuedReportStatus[]) {
+  const now = Date.now();
+  const claimed = await updateRecord<QueuedReport>(REPORT_QUEUE_STORE, id, (current) => {
+    if (!current) return null;
+    const stale = current.status === "uploading" && now - (current.claimedAt || 0) > STALE_CLAIM_MS;
+    return from.includes(current.status) || stale ? { ...current, status: "uploading", claimedAt: now } : null;
+  });
+  if (claimed) notifyChanged();
+  return claimed;
+}
+
+// Re-send a single queued report. Successful uploads are removed from the queue;
+// network failures stay "pending" for the next automatic retry, backend errors
+// become "failed" and AI rejections "rejected" until the user retries or discards.
+// Null when the report is already being uploaded (another tab, the automatic flush).
+export async function retryQueuedReport(
+  item: QueuedReport,
+  from: QueuedReportStatus[] = ["pending", "failed", "rejected"]
+): Promise<SendResult | null> {
+  if (!(await claimQueuedReport(item.id, from))) return null;
+  const result = await sendReport(item.payload);
+  const attempts = item.attempts + 1;
+
+  if (result.ok && result.data.status !== "invalid_image") {
+    const code = trackingCodeFrom(result.data);
+    if (code) rememberTrackingCode(code);
+    await removeQueuedReport(item.id);
+  } else if (result.ok) {
+    await saveQueuedReport({
+      ...item,
+      attempts,
+      status: "rejected",
+      lastError: (result.data.message as string) || "This does not appear to be an animal",
+    });
+  } else if (result.networkError) {
+    await saveQueuedReport({ ...item, attempts, status: "pending", lastError: "No connection" });
+  } else {
+    await saveQueuedReport({
+      ...item,
+      attempts,
+      status: "failed",
+      lastError:
+        (result.data.error as string) ||
+        (result.data.message as string) ||
+        `Server responded ${result.status ?? "with an error"}`,
+    });
+  }
+  return result;
+}
+
+// Re-send a report the AI rejected, asking for human review instead
+export async function submitQueuedReportForReview(item: QueuedReport): Promise<SendResult | null> {
+  return retryQueuedReport({ ...item, payload: withReviewOverride(item.payload) }, ["rejected"]);
+}
+
+let flushing = false;
+
+// Retry every "pending" report in order (plus any left "uploading" by a closed
+// tab). Stops at the first network failure since the rest will fail the same way.
+// `flushing` only stops overlapping flushes in this tab; the claims cover the rest.
+export async function flushReportQueue(): Promise<number> {
+  if (flushing) return 0;
+  flushing = true;
+  let sent = 0;
+  try {
+    const items = await listQueuedReports();
+    for (const item of items) {
+      if (item.status !== "pending" && item.status !== "uploading") continue;
+      const result = await retryQueuedReport(item, ["pending"]);
+      if (!result) continue;
+      if (result.networkError) break;
+      if (result.ok && result.data.status !== "invalid_image") sent += 1;
+    }
+  } catch (err) {
+    console.warn("Flushing report queue failed", err);
+  } finally {
+    flushing = false;
+  }
+  return sent;
+}
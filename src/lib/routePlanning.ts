@@ -0,0 +1,137 @@
+// Multi-stop pickup runs
+// A team leaves the NGO, collects several animals and drives back. The stop
+// order comes from Google's waypoint optimisation when Google Maps is
+// available; otherwise (no key, mock mode, a failed request) from a
+// nearest-neighbour tour improved with 2-opt over straight-line distances,
+// with times estimated at AVERAGE_SPEED_KMH.
+
+import { LatLng, haversineMeters } from "./geo";
+import { loadGoogleMaps } from "./googleMaps";
+import { preferredMapProvider } from "./mapProvider";
+
+// Google allows 25 waypoints; a van rarely fits more than a handful of animals
+export const MAX_ROUTE_STOPS = 10;
+const AVERAGE_SPEED_KMH = 25;
+// roads are longer than the straight line between two points
+const ROAD_FACTOR = 1.3;
+
+export interface RouteStop {
+  caseId: string;
+  title: string;
+  position: LatLng;
+  severity?: string;
+}
+
+export interface RouteLeg {
+  // case the leg ends at; null for the drive back to the NGO
+  toCaseId: string | null;
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+export interface RoutePlan {
+  // in visiting order
+  stops: RouteStop[];
+  // one per stop, plus the return leg
+  legs: RouteLeg[];
+  path: LatLng[];
+  // true when distances and times are straight-line estimates rather than Google's
+  estimated: boolean;
+}
+
+export async function planRoute(origin: LatLng, stops: RouteStop[]): Promise<RoutePlan> {
+  if (stops.length > 0 && preferredMapProvider() === "google") {
+    try {
+      return await googleRoute(origin, stops);
+    } catch (err) {
+      console.warn("Google directions failed, estimating the route", err);
+    }
+  }
+  return estimateRoute(origin, stops);
+}
+
+async function googleRoute(origin: LatLng, stops: RouteStop[]): Promise<RoutePlan> {
+  const g = await loadGoogleMaps();
+  const result = await new g.maps.DirectionsService().route({
+    origin,
+    destination: origin,
+    waypoints: stops.map((s) => ({ location: s.position, stopover: true })),
+    optimizeWaypoints: true,
+    travelMode: g.maps.TravelMode.DRIVING,
+  });
+  const route = result.routes[0];
+  const ordered = route.waypoint_order.map((i) => stops[i]);
+  return {
+    stops: ordered,
+    legs: route.legs.map((leg, i) => ({
+      toCaseId: ordered[i]?.caseId ?? null,
+      distanceMeters: leg.distance?.value ?? 0,
+      durationSeconds: leg.duration?.value ?? 0,
+    })),
+    path: route.overview_path.map((p) => ({ lat: p.lat(), lng: p.lng() })),
+    estimated: false,
+  };
+}
+
+function estimatedLeg(from: LatLng, to: LatLng, toCaseId: string | null): RouteLeg {
+  const distanceMeters = haversineMeters(from, to) * ROAD_FACTOR;
+  return { toCaseId, distanceMeters, durationSeconds: distanceMeters / ((AVERAGE_SPEED_KMH * 1000) / 3600) };
+}
+
+// Length of the round trip origin → stops → origin
+function tourLength(origin: LatLng, stops: RouteStop[]) {
+  const points = [origin, ...stops.map((s) => s.position), origin];
+  return points.slice(1).reduce((sum, p, i) => sum + haversineMeters(points[i], p), 0);
+}
+
+export function estimateRoute(origin: LatLng, stops: RouteStop[]): RoutePlan {
+  // nearest neighbour from the NGO...
+  const remaining = [...stops];
+  let order: RouteStop[] = [];
+  let here = origin;
+  while (remaining.length) {
+    let best = 0;
+    remaining.forEach((s, i) => {
+      if (haversineMeters(here, s.position) < haversineMeters(here, remaining[best].position)) best = i;
+    });
+    const [next] = remaining.splice(best, 1);
+    order.push(next);
+    here = next.position;
+  }
+
+  // ...then reverse segments while that shortens the trip (2-opt)
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        if (tourLength(origin, candidate) + 1 < tourLength(origin, order)) {
+          order = candidate;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  const points = [origin, ...order.map((s) => s.position), origin];
+  return {
+    stops: order,
+    legs: points.slice(1).map((p, i) => estimatedLeg(points[i], p, order[i]?.caseId ?? null)),
+    path: points,
+    estimated: true,
+  };
+}
+
+// Google Maps directions link for the whole run, stops in the planned order
+export function googleMapsRouteUrl(origin: LatLng, stops: RouteStop[]) {
+  const point = (p: LatLng) => `${p.lat},${p.lng}`;
+  const params = new URLSearchParams({
+    api: "1",
+    origin: point(origin),
+    destination: point(origin),
+    waypoints: stops.map((s) => point(s.position)).join("|"),
+    travelmode: "driving",
+  });
+  return `https://www.google.com/maps/dir/?${params}`;
+}
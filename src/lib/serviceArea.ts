@@ -0,0 +1,143 @@
+// NGO service areas: a drawn polygon or a radius circle, stored as GeoJSON
+// NGOs registered before areas existed only have a point and
+// service_radius_km; ngoServiceArea turns those into a circle so every NGO can
+// be treated the same way. Cases are classed as inside the area, just outside
+// it (within NEAR_AREA_KM of the edge) or outside.
+
+import { NgoRecord, ServiceArea, isRecord } from "./apiTypes";
+import { EARTH_RADIUS_M, LatLng, haversineKm, toLatLng } from "./geo";
+
+export type { ServiceArea };
+export type AreaRelation = "inside" | "near" | "outside";
+
+// how far past the edge a case still counts as "just outside"
+export const NEAR_AREA_KM = 5;
+export const DEFAULT_RADIUS_KM = 10;
+
+const toPosition = (p: LatLng) => [p.lng, p.lat];
+const fromPosition = ([lng, lat]: number[]): LatLng => ({ lat, lng });
+const isPosition = (v: unknown) => Array.isArray(v) && v.length >= 2 && v.every((n) => typeof n === "number" && Number.isFinite(n));
+
+export function circleArea(center: LatLng, radiusKm: number): ServiceArea {
+  return { type: "Feature", geometry: { type: "Point", coordinates: toPosition(center) }, properties: { radius_km: radiusKm } };
+}
+
+// GeoJSON rings are closed: the first corner is repeated at the end
+export function polygonArea(corners: LatLng[]): ServiceArea {
+  const ring = [...corners, corners[0]].map(toPosition);
+  return { type: "Feature", geometry: { type: "Polygon", coordinates: [ring] }, properties: {} };
+}
+
+// A stored area, or null if it is missing or not a polygon / radius circle we can use
+export function parseServiceArea(value: unknown): ServiceArea | null {
+  const raw = typeof value === "string" ? safeJson(value) : value;
+  if (!isRecord(raw) || raw.type !== "Feature" || !isRecord(raw.geometry)) return null;
+  const { type, coordinates } = raw.geometry;
+  const properties = isRecord(raw.properties) ? raw.properties : {};
+  if (type === "Point" && isPosition(coordinates)) {
+    const radius = Number(properties.radius_km);
+    return radius > 0 ? circleArea(fromPosition(coordinates as number[]), radius) : null;
+  }
+  if (type === "Polygon" && Array.isArray(coordinates) && Array.isArray(coordinates[0])) {
+    const ring = coordinates[0] as unknown[];
+    if (!ring.every(isPosition)) return null;
+    const corners = (ring as number[][]).map(fromPosition);
+    // drop the closing corner before re-closing, so open rings are accepted too
+    const last = corners[corners.length - 1];
+    if (corners.length > 1 && last.lat === corners[0].lat && last.lng === corners[0].lng) corners.pop();
+    return corners.length >= 3 ? polygonArea(corners) : null;
+  }
+  return null;
+}
+
+function safeJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+// The NGO's drawn area, falling back to a circle of service_radius_km around its location
+export function ngoServiceArea(ngo: NgoRecord): ServiceArea | null {
+  const drawn = parseServiceArea(ngo.service_area);
+  if (drawn) return drawn;
+  const location = toLatLng(ngo.latitude, ngo.longitude);
+  const radius = Number(ngo.service_radius_km);
+  return location && radius > 0 ? circleArea(location, radius) : null;
+}
+
+// Polygon corners without the closing repeat; [] for circles
+export function areaCorners(area: ServiceArea): LatLng[] {
+  if (area.geometry.type !== "Polygon") return [];
+  return area.geometry.coordinates[0].slice(0, -1).map(fromPosition);
+}
+
+export function areaCenter(area: ServiceArea): LatLng {
+  if (area.geometry.type === "Point") return fromPosition(area.geometry.coordinates);
+  const corners = areaCorners(area);
+  return {
+    lat: corners.reduce((sum, p) => sum + p.lat, 0) / corners.length,
+    lng: corners.reduce((sum, p) => sum + p.lng, 0) / corners.length,
+  };
+}
+
+// Outline to draw on a map; circles are approximated by a polygon
+export function areaOutline(area: ServiceArea, steps = 64): LatLng[] {
+  if (area.geometry.type === "Polygon") return areaCorners(area);
+  const center = areaCenter(area);
+  const radius = area.properties.radius_km || 0;
+  const dLat = ((radius * 1000) / EARTH_RADIUS_M) * (180 / Math.PI);
+  const dLng = dLat / Math.cos((center.lat * Math.PI) / 180);
+  return Array.from({ length: steps }, (_, i) => {
+    const t = (2 * Math.PI * i) / steps;
+    return { lat: center.lat + dLat * Math.sin(t), lng: center.lng + dLng * Math.cos(t) };
+  });
+}
+
+// Radius of the smallest circle around `from` that covers the area, for
+// backends that only understand service_radius_km
+export function enclosingRadiusKm(area: ServiceArea, from: LatLng = areaCenter(area)): number {
+  if (area.geometry.type === "Point") return haversineKm(from, areaCenter(area)) + (area.properties.radius_km || 0);
+  return Math.max(...areaCorners(area).map((p) => haversineKm(from, p)));
+}
+
+function insidePolygon(corners: LatLng[], p: LatLng) {
+  let inside = false;
+  for (let i = 0, j = corners.length - 1; i < corners.length; j = i++) {
+    const a = corners[i];
+    const b = corners[j];
+    if (a.lat > p.lat !== b.lat > p.lat && p.lng < ((b.lng - a.lng) * (p.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Distance from p to the segment a–b, on a flat projection around p (fine at city scale)
+function distanceToSegmentKm(p: LatLng, a: LatLng, b: LatLng) {
+  const kmPerLng = 111.32 * Math.cos((p.lat * Math.PI) / 180);
+  const ax = (a.lng - p.lng) * kmPerLng;
+  const ay = (a.lat - p.lat) * 110.574;
+  const bx = (b.lng - p.lng) * kmPerLng;
+  const by = (b.lat - p.lat) * 110.574;
+  const lengthSq = (bx - ax) ** 2 + (by - ay) ** 2;
+  const t = lengthSq === 0 ? 0 : Math.min(1, Math.max(0, -(ax * (bx - ax) + ay * (by - ay)) / lengthSq));
+  return Math.hypot(ax + t * (bx - ax), ay + t * (by - ay));
+}
+
+// 0 inside the area, otherwise how far past the edge p is
+export function distanceOutsideKm(area: ServiceArea, p: LatLng): number {
+  if (area.geometry.type === "Point") {
+    return Math.max(0, haversineKm(areaCenter(area), p) - (area.properties.radius_km || 0));
+  }
+  const corners = areaCorners(area);
+  if (insidePolygon(corners, p)) return 0;
+  return Math.min(...corners.map((a, i) => distanceToSegmentKm(p, a, corners[(i + 1) % corners.length])));
+}
+
+export function areaRelation(area: ServiceArea, p: LatLng): AreaRelation {
+  const outside = distanceOutsideKm(area, p);
+  if (outside === 0) return "inside";
+  return outside <= NEAR_AREA_KM ? "near" : "outside";
+}
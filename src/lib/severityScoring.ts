@@ -0,0 +1,137 @@
+// Client-side severity suggestion for rescue reports
+// Scores the structured injury types, keywords in the description, Rekognition
+// labels and time of day, and maps the total onto the Low..Critical scale.
+// The reporter still picks the severity; both values are sent with the report.
+// Rekognition labels only exist once the backend has the photo, so the score
+// sent with a report never includes them; rescoreWithLabels recomputes it
+// for stored cases that carry their labels.
+
+export const SEVERITY_LEVELS = ["Low", "Medium", "High", "Critical"] as const;
+export type Severity = (typeof SEVERITY_LEVELS)[number];
+
+export interface SeveritySuggestion {
+  severity: Severity;
+  score: number;
+  reasons: string[];
+}
+
+export interface SeverityInput {
+  injuryTypes?: string[];
+  description?: string;
+  labels?: unknown;
+  at?: Date;
+}
+
+const INJURY_WEIGHTS: Record<string, number> = {
+  road_accident: 4,
+  bleeding: 3,
+  poisoning: 3,
+  trapped: 3,
+  burns: 3,
+  maggot_wound: 3,
+  fracture: 2,
+  weak: 2,
+  abandoned: 1,
+  skin_disease: 1,
+};
+
+const KEYWORDS: { pattern: RegExp; weight: number; reason: string }[] = [
+  { pattern: /\b(unconscious|not moving|not breathing|seizure|fitting)\b/i, weight: 4, reason: "Described as unresponsive" },
+  { pattern: /\b(hit by|run over|accident)\b/i, weight: 3, reason: "Mentions a vehicle accident" },
+  { pattern: /\b(blood|bleeding|open wound|deep cut)\b/i, weight: 2, reason: "Mentions bleeding or an open wound" },
+  { pattern: /\b(can'?t (walk|stand)|unable to (walk|stand)|limping|broken)\b/i, weight: 2, reason: "Mentions mobility problems" },
+  { pattern: /\b(stuck|trapped|drain|well|pipe)\b/i, weight: 2, reason: "Animal may be trapped" },
+  { pattern: /\b(puppy|puppies|kitten|kittens|newborn|baby)\b/i, weight: 1, reason: "Young animal" },
+  { pattern: /\b(pregnant)\b/i, weight: 1, reason: "Pregnant animal" },
+];
+
+const LABEL_WEIGHTS: Record<string, number> = {
+  blood: 2,
+  wound: 2,
+  injury: 2,
+  accident: 2,
+  "car accident": 2,
+};
+
+// thresholds on the total score, highest first
+const THRESHOLDS: [number, Severity][] = [
+  [7, "Critical"],
+  [4, "High"],
+  [2, "Medium"],
+];
+
+export function severityRank(severity: string | undefined): number {
+  const index = SEVERITY_LEVELS.indexOf(severity as Severity);
+  return index === -1 ? -1 : index;
+}
+
+export function suggestSeverity({ injuryTypes = [], description = "", labels, at = new Date() }: SeverityInput): SeveritySuggestion {
+  let score = 0;
+  const reasons: string[] = [];
+
+  const injuryScore = injuryTypes.reduce((sum, t) => sum + (INJURY_WEIGHTS[t] ?? 0), 0);
+  if (injuryScore > 0) {
+    score += injuryScore;
+    reasons.push(`${injuryTypes.length} injury type${injuryTypes.length > 1 ? "s" : ""} selected`);
+  }
+
+  for (const keyword of KEYWORDS) {
+    if (keyword.pattern.test(description)) {
+      score += keyword.weight;
+      reasons.push(keyword.reason);
+    }
+  }
+
+  if (Array.isArray(labels)) {
+    const names = labels
+      .map((l) => String((l as { Name?: string } | null)?.Name || "").toLowerCase())
+      .filter((name) => LABEL_WEIGHTS[name]);
+    if (names.length > 0) {
+      score += Math.max(...names.map((name) => LABEL_WEIGHTS[name]));
+      reasons.push(`Photo shows signs of injury (${names.join(", ")})`);
+    }
+  }
+
+  // fewer people around to help and harder to find the animal again after dark
+  const hour = at.getHours();
+  if (score > 0 && (hour >= 20 || hour < 6)) {
+    score += 1;
+    reasons.push("Reported at night");
+  }
+
+  const severity = THRESHOLDS.find(([min]) => score >= min)?.[1] ?? "Low";
+  if (reasons.length === 0) reasons.push("No urgent signs found yet");
+  return { severity, score, reasons };
+}
+
+// Score of a stored case including its Rekognition labels, or null when it
+// has none. Only ever raises the stored score: labels add weight, never remove it.
+export function rescoreWithLabels(c: {
+  description?: unknown;
+  injury_types?: unknown;
+  rekognition_labels?: unknown;
+  created_at?: unknown;
+  severity_score?: unknown;
+}): SeveritySuggestion | null {
+  if (!Array.isArray(c.rekognition_labels) || c.rekognition_labels.length === 0) return null;
+  const reportedAt = c.created_at ? new Date(String(c.created_at)) : undefined;
+  const suggestion = suggestSeverity({
+    injuryTypes: Array.isArray(c.injury_types) ? c.injury_types.map(String) : [],
+    description: String(c.description || ""),
+    labels: c.rekognition_labels,
+    at: reportedAt && !Number.isNaN(reportedAt.getTime()) ? reportedAt : undefined,
+  });
+  return suggestion.score > (Number(c.severity_score) || 0) ? suggestion : null;
+}
+
+/**
+ * Sort key for dashboards: the suggested severity is weighted above the
+ * reporter's choice so cases everyone marks "Critical" don't all float to the
+ * top, with the raw score breaking ties. Higher is more urgent.
+ */
+export function priorityScore(c: { severity?: string; suggestedSeverity?: string; severityScore?: number }): number {
+  const chosen = Math.max(severityRank(c.severity), 0);
+  const suggested = severityRank(c.suggestedSeverity);
+  const base = suggested === -1 ? chosen * 10 : suggested * 10 + chosen * 2;
+  return base + Math.min(Number(c.severityScore) || 0, 9) / 10;
+}
@@ -0,0 +1,66 @@
+// Structured species and injury vocabulary shared by the report form and dashboard
+
+export const SPECIES = ["Dog", "Cat", "Cattle", "Bird", "Monkey", "Horse/Donkey", "Goat/Sheep", "Other"] as const;
+
+export const INJURY_TYPES = [
+  { value: "bleeding", label: "Bleeding" },
+  { value: "fracture", label: "Fracture / limping" },
+  { value: "trapped", label: "Trapped / stuck" },
+  { value: "road_accident", label: "Road accident" },
+  { value: "poisoning", label: "Poisoning" },
+  { value: "burns", label: "Burns" },
+  { value: "skin_disease", label: "Skin disease / mange" },
+  { value: "maggot_wound", label: "Maggot wound" },
+  { value: "weak", label: "Weak / unable to stand" },
+  { value: "abandoned", label: "Abandoned young" },
+] as const;
+
+export type InjuryType = (typeof INJURY_TYPES)[number]["value"];
+
+export function injuryLabel(value: string) {
+  return INJURY_TYPES.find((t) => t.value === value)?.label || value;
+}
+
+// Rekognition label names (lower-case) mapped onto our species list
+const LABEL_TO_SPECIES: Record<string, string> = {
+  dog: "Dog",
+  puppy: "Dog",
+  canine: "Dog",
+  cat: "Cat",
+  kitten: "Cat",
+  cow: "Cattle",
+  cattle: "Cattle",
+  bull: "Cattle",
+  ox: "Cattle",
+  calf: "Cattle",
+  buffalo: "Cattle",
+  "water buffalo": "Cattle",
+  bird: "Bird",
+  pigeon: "Bird",
+  crow: "Bird",
+  parrot: "Bird",
+  kite: "Bird",
+  owl: "Bird",
+  monkey: "Monkey",
+  primate: "Monkey",
+  horse: "Horse/Donkey",
+  donkey: "Horse/Donkey",
+  goat: "Goat/Sheep",
+  sheep: "Goat/Sheep",
+};
+
+/**
+ * Species suggested by the highest-confidence Rekognition label we recognise,
+ * or null when none of the labels is a known animal.
+ */
+export function speciesFromLabels(labels: unknown): string | null {
+  if (!Array.isArray(labels)) return null;
+  const sorted = [...labels]
+    .filter((l): l is { Name?: string; Confidence?: number } => Boolean(l) && typeof l === "object")
+    .sort((a, b) => Number(b.Confidence ?? 0) - Number(a.Confidence ?? 0));
+  for (const label of sorted) {
+    const species = LABEL_TO_SPECIES[String(label.Name || "").toLowerCase()];
+    if (species) return species;
+  }
+  return null;
+}